@@ -1,27 +1,43 @@
-import {CacheStore} from "./types/cache-store";
+import {CacheStats, CacheStore} from "./types/cache-store";
 import {RedisCache} from "./cache/redis";
 import MemoryCache from "./cache/memory";
+import {TieredCache} from "./cache/tiered";
+import {SqliteCache} from "./cache/sqlite";
 
 const CACHE_TTL = process.env.CACHE_TTL ? parseInt(process.env.CACHE_TTL) : 3600;
 const CACHE_ENABLED = process.env.CACHE_ENABLED === 'true';
 
 /**
- * Returns a cache store instance based on the CACHE_STORE environment variable.
- * Supports 'redis' and 'memory' stores.
+ * The process-wide cache store, created on first use.
+ */
+let cacheStore: CacheStore | null = null;
+
+/**
+ * Returns the cache store selected by the CACHE_STORE environment variable.
+ * Supports 'redis', 'memory', 'tiered' (memory in front of Redis) and 'sqlite' (persistent, in its own database file) stores.
  *
- * Checks the CACHE_STORE env var and instantiates the corresponding cache implementation, or throws if unsupported.
+ * Creates the store on first call and returns the same instance afterwards, so the memory store retains entries and
+ * Redis connections are reused across requests.
  *
  * @returns {CacheStore} The selected cache store instance.
  * @throws {Error} If CACHE_STORE is not set to a supported value.
  */
 function getCacheStore(): CacheStore {
+    if (cacheStore) return cacheStore;
+
     if (process.env.CACHE_STORE === 'redis') {
-        return new RedisCache();
+        cacheStore = new RedisCache();
     } else if (process.env.CACHE_STORE === 'memory') {
-        return new MemoryCache();
+        cacheStore = new MemoryCache();
+    } else if (process.env.CACHE_STORE === 'tiered') {
+        cacheStore = new TieredCache();
+    } else if (process.env.CACHE_STORE === 'sqlite') {
+        cacheStore = new SqliteCache();
+    } else {
+        throw new Error(`No cache store configured for "${process.env.CACHE_STORE}". Please set CACHE_STORE environment variable to 'redis', 'memory', 'tiered' or 'sqlite'.`);
     }
 
-    throw new Error(`No cache store configured for "${process.env.CACHE_STORE}". Please set CACHE_STORE environment variable to 'redis' or 'memory'.`);
+    return cacheStore;
 }
 
 /**
@@ -44,6 +60,28 @@ export function setCache(key: string, value: string, ttl: number = CACHE_TTL): P
     return store.set(key, value, ttl);
 }
 
+/**
+ * Stores a value in the configured cache store under the given tags, so it can later be dropped by `invalidateCacheTags`.
+ * No-ops when CACHE_ENABLED is not 'true'.
+ *
+ * Tags name what the value depends on: services tag every list, count or other derived result of an entity type with
+ * `<type>:list` (e.g. `anime:list`), and every entry containing a given row with `<type>:{id}` (e.g. `anime:1`).
+ *
+ * @param {string} key - The cache key.
+ * @param {string} value - The value to store (stringified JSON recommended).
+ * @param {string[]} tags - Tags to associate with the entry.
+ * @param {number} [ttl=CACHE_TTL] - Time-to-live in seconds.
+ * @returns {Promise<void>}
+ */
+export function setTaggedCache(key: string, value: string, tags: string[], ttl: number = CACHE_TTL): Promise<void> {
+    if (!CACHE_ENABLED) {
+        return Promise.resolve();
+    }
+
+    const store = getCacheStore();
+    return store.set(key, value, ttl, tags);
+}
+
 /**
  * Retrieves a value by key from the configured cache store.
  * No-ops and returns null when CACHE_ENABLED is not 'true'.
@@ -81,18 +119,54 @@ export function deleteCache(key: string): Promise<void> {
 }
 
 /**
- * Clears the configured cache store.
+ * Deletes every entry stored with any of the given tags from the configured cache store.
  * No-ops when CACHE_ENABLED is not 'true'.
  *
- * When enabled, resolves the cache store and calls clear(); otherwise returns immediately.
+ * Following the tag scheme of `setTaggedCache`, a new row invalidates `<type>:list`, since it can appear in any list or
+ * count. An updated or deleted row also invalidates `<type>:{id}` to drop entries holding the old version; `<type>:list`
+ * goes too, as changed filter values can add the row to or remove it from any list.
  *
+ * @param {string[]} tags - Tags to invalidate, e.g. `["anime:list", "anime:1"]`.
  * @returns {Promise<void>}
  */
-export function clearCache(): Promise<void> {
+export function invalidateCacheTags(tags: string[]): Promise<void> {
     if (!CACHE_ENABLED) {
         return Promise.resolve();
     }
 
     const store = getCacheStore();
-    return store.clear();
+    return store.invalidateTags(tags);
+}
+
+/**
+ * Clears the configured cache store, optionally only the keys matching a glob pattern.
+ * No-ops when CACHE_ENABLED is not 'true'.
+ *
+ * When enabled, resolves the cache store and calls clear(pattern); otherwise returns immediately.
+ *
+ * @param {string} [pattern] - Glob pattern over cache keys, e.g. `anime_*`; everything when omitted.
+ * @returns {Promise<number>} Number of cleared entries (0 when caching is disabled).
+ */
+export function clearCache(pattern?: string): Promise<number> {
+    if (!CACHE_ENABLED) {
+        return Promise.resolve(0);
+    }
+
+    const store = getCacheStore();
+    return store.clear(pattern);
+}
+
+/**
+ * Returns the configured cache store's counters for monitoring.
+ * Returns null when CACHE_ENABLED is not 'true' or the store does not track statistics (Redis reports its own via INFO).
+ *
+ * @returns {CacheStats | null} Hit/miss/eviction counters and current size, if available.
+ */
+export function getCacheStats(): CacheStats | null {
+    if (!CACHE_ENABLED) {
+        return null;
+    }
+
+    const store = getCacheStore();
+    return store.stats?.() ?? null;
 }
\ No newline at end of file
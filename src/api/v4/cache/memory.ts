@@ -1,4 +1,4 @@
-import {CacheStore} from "../types/cache-store";
+import {CacheStats, CacheStore} from "../types/cache-store";
 
 /**
  * Represents a single in-memory cache entry.
@@ -6,63 +6,129 @@ import {CacheStore} from "../types/cache-store";
 type CacheEntry = {
     value: string;
     expiresAt?: number;
-    timer?: ReturnType<typeof setTimeout>;
+    tags?: string[];
+    /** Approximate memory held by the entry (key and value as UTF-16), in bytes. */
+    size: number;
 };
 
 /**
- * A simple in-memory cache implementation with optional TTL support.
- * Entries can be set with a TTL (in seconds). Expired entries are lazily
- * purged on access and proactively removed via a timeout when possible.
+ * Size and sweep limits of a MemoryCache.
+ */
+export type MemoryCacheOptions = {
+    /** Maximum number of entries before the least recently used ones are evicted. */
+    maxEntries?: number;
+    /** Maximum approximate size of all keys and values, in bytes. */
+    maxBytes?: number;
+    /** Seconds between sweeps removing expired entries. */
+    sweepInterval?: number;
+};
+
+const DEFAULT_MAX_ENTRIES = process.env.MEMORY_CACHE_MAX_ENTRIES ? parseInt(process.env.MEMORY_CACHE_MAX_ENTRIES) : 10000;
+const DEFAULT_MAX_BYTES = process.env.MEMORY_CACHE_MAX_BYTES ? parseInt(process.env.MEMORY_CACHE_MAX_BYTES) : 64 * 1024 * 1024;
+const DEFAULT_SWEEP_INTERVAL = process.env.MEMORY_CACHE_SWEEP_INTERVAL ? parseInt(process.env.MEMORY_CACHE_SWEEP_INTERVAL) : 60;
+
+/**
+ * A bounded in-memory LRU cache with optional TTL support.
+ * Entries can be set with a TTL (in seconds). Expired entries are lazily purged on access and removed in bulk by a
+ * single periodic sweep (instead of one timer per entry), running only while entries with a TTL may be present.
+ * When the entry or byte budget is exceeded, the least recently used entries are evicted.
+ * Tagged entries are indexed by tag so a tag can be invalidated without scanning the store.
  */
 export default class MemoryCache implements CacheStore {
+    // Map iteration follows insertion order; entries are re-inserted on every hit, so the first key is the least recently used
     private store = new Map<string, CacheEntry>();
+    private tagIndex = new Map<string, Set<string>>();
+    private readonly maxEntries: number;
+    private readonly maxBytes: number;
+    private readonly sweepInterval: number;
+    private sweeper: ReturnType<typeof setInterval> | null = null;
+    private bytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+    private expirations = 0;
+
+    /**
+     * Creates a new MemoryCache.
+     *
+     * Limits default to MEMORY_CACHE_MAX_ENTRIES (10000), MEMORY_CACHE_MAX_BYTES (64 MiB) and MEMORY_CACHE_SWEEP_INTERVAL
+     * (60 seconds).
+     *
+     * @param {MemoryCacheOptions} [options] - Overrides for the size and sweep limits.
+     */
+    constructor(options: MemoryCacheOptions = {}) {
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+        this.sweepInterval = options.sweepInterval ?? DEFAULT_SWEEP_INTERVAL;
+    }
 
     /**
      * Retrieves a value from the cache by key.
      * If the entry has expired, it is removed and null is returned.
      *
-     * Reads the in-memory Map by key; checks TTL and proactively deletes expired entries before returning.
+     * Reads the in-memory Map by key; checks TTL, deletes expired entries, and marks live entries as most recently used.
      *
      * @param {string} key - Cache key to read.
      * @returns {Promise<string | null>} The cached string value or null if missing/expired.
      */
     async get(key: string): Promise<string | null> {
         const entry = this.store.get(key);
-        if (!entry) return null;
+        if (!entry) {
+            this.misses++;
+            return null;
+        }
 
-        if (typeof entry.expiresAt === "number" && Date.now() >= entry.expiresAt) {
+        if (this.isExpired(entry)) {
             this.removeEntry(key, entry);
+            this.expirations++;
+            this.misses++;
             return null;
         }
 
+        this.store.delete(key);
+        this.store.set(key, entry);
+        this.hits++;
         return entry.value;
     }
 
     /**
-     * Stores a value in the cache with an optional TTL.
+     * Stores a value in the cache with an optional TTL and tags.
      *
-     * Writes the value to an internal Map; when ttl is provided, schedules expiration via setTimeout and records an expiresAt timestamp.
+     * Writes the value to an internal Map as the most recently used entry; when ttl is provided, records an expiresAt timestamp.
+     * The key is added to the index of each tag (and removed from the tags of the entry it replaces). Least recently used
+     * entries are then evicted until the cache is within its entry and byte budgets; a value larger than the whole byte
+     * budget is not stored.
      *
      * @param {string} key - Cache key to set.
      * @param {string} value - Value to store (stringified if needed by caller).
      * @param {number} [ttl] - Optional time-to-live in seconds.
+     * @param {string[]} [tags] - Optional tags to invalidate the entry by.
      * @returns {Promise<void>}
      */
-    async set(key: string, value: string, ttl?: number): Promise<void> {
-        const prev = this.store.get(key);
-        if (prev?.timer) clearTimeout(prev.timer);
+    async set(key: string, value: string, ttl?: number, tags: string[] = []): Promise<void> {
+        this.removeEntry(key, this.store.get(key));
 
-        const entry: CacheEntry = {value};
+        const entry: CacheEntry = {value, size: (key.length + value.length) * 2};
+        if (entry.size > this.maxBytes) return;
 
         if (ttl && ttl > 0) {
-            const ms = this.ttlToMs(ttl);
-            entry.expiresAt = Date.now() + ms;
-            entry.timer = setTimeout(() => {
-                this.store.delete(key);
-            }, ms);
+            entry.expiresAt = Date.now() + this.ttlToMs(ttl);
+        }
+
+        if (tags.length) {
+            entry.tags = tags;
+            tags.forEach((tag) => {
+                const keys = this.tagIndex.get(tag) ?? new Set<string>();
+                keys.add(key);
+                this.tagIndex.set(tag, keys);
+            });
         }
 
         this.store.set(key, entry);
+        this.bytes += entry.size;
+        this.evict();
+
+        if (entry.expiresAt !== undefined) this.startSweeper();
     }
 
     /**
@@ -77,25 +143,129 @@ export default class MemoryCache implements CacheStore {
     }
 
     /**
-     * Clears all entries in the cache and cancels any scheduled expiration timers.
+     * Deletes every entry stored with any of the given tags.
      *
+     * @param {string[]} tags - Tags to invalidate.
      * @returns {Promise<void>}
      */
-    async clear(): Promise<void> {
-        this.store.forEach((entry) => {
-            if (entry.timer) clearTimeout(entry.timer);
+    async invalidateTags(tags: string[]): Promise<void> {
+        tags.forEach((tag) => {
+            this.tagIndex.get(tag)?.forEach((key) => this.removeEntry(key, this.store.get(key)));
+            this.tagIndex.delete(tag);
         });
-        this.store.clear();
     }
 
     /**
-     * Removes a cache entry and clears its timer if present.
+     * Clears entries in the cache, optionally only those whose key matches a glob pattern.
+     *
+     * @param {string} [pattern] - Glob pattern over keys (`*`, `?` and `[...]`), e.g. `anime_*`; all entries when omitted.
+     * @returns {Promise<number>} Number of cleared entries.
+     */
+    async clear(pattern?: string): Promise<number> {
+        if (pattern === undefined || pattern === "*") {
+            const count = this.store.size;
+            this.store.clear();
+            this.tagIndex.clear();
+            this.bytes = 0;
+            this.stopSweeper();
+            return count;
+        }
+
+        const regex = globToRegExp(pattern);
+        const keys = Array.from(this.store.keys()).filter((key) => regex.test(key));
+        keys.forEach((key) => this.removeEntry(key, this.store.get(key)));
+        return keys.length;
+    }
+
+    /**
+     * Returns the cache's counters and current size for monitoring.
+     *
+     * @returns {CacheStats} Hits, misses, evictions, expirations and current/maximum size.
+     */
+    stats(): CacheStats {
+        return {
+            store: "memory",
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            expirations: this.expirations,
+            entries: this.store.size,
+            bytes: this.bytes,
+            max_entries: this.maxEntries,
+            max_bytes: this.maxBytes,
+        };
+    }
+
+    /**
+     * Removes every expired entry; runs on the sweep timer, which stops once the cache is empty.
+     * @private
+     */
+    private sweep() {
+        this.store.forEach((entry, key) => {
+            if (this.isExpired(entry)) {
+                this.removeEntry(key, entry);
+                this.expirations++;
+            }
+        });
+
+        if (!this.store.size) this.stopSweeper();
+    }
+
+    /**
+     * Starts the sweep timer if it is not running. The timer is unref'd so it never keeps the process alive.
+     * @private
+     */
+    private startSweeper() {
+        if (this.sweeper) return;
+        this.sweeper = setInterval(() => this.sweep(), this.sweepInterval * 1000);
+        this.sweeper.unref?.();
+    }
+
+    /**
+     * Stops the sweep timer.
+     * @private
+     */
+    private stopSweeper() {
+        if (this.sweeper) clearInterval(this.sweeper);
+        this.sweeper = null;
+    }
+
+    /**
+     * Evicts least recently used entries until the cache is within its entry and byte budgets.
+     * @private
+     */
+    private evict() {
+        while (this.store.size > this.maxEntries || this.bytes > this.maxBytes) {
+            const key = this.store.keys().next().value as string;
+            this.removeEntry(key, this.store.get(key));
+            this.evictions++;
+        }
+    }
+
+    /**
+     * Checks whether an entry's TTL has elapsed.
+     * @param {CacheEntry} entry - The entry to check.
+     * @returns {boolean} True if the entry has expired.
+     * @private
+     */
+    private isExpired(entry: CacheEntry): boolean {
+        return typeof entry.expiresAt === "number" && Date.now() >= entry.expiresAt;
+    }
+
+    /**
+     * Removes a cache entry, releases its size and unlinks it from its tags.
      * @param {string} key - The cache key.
      * @param {CacheEntry} [entry] - The entry to remove.
      * @private
      */
     private removeEntry(key: string, entry?: CacheEntry) {
-        if (entry?.timer) clearTimeout(entry.timer);
+        if (!entry) return;
+        entry.tags?.forEach((tag) => {
+            const keys = this.tagIndex.get(tag);
+            keys?.delete(key);
+            if (keys && !keys.size) this.tagIndex.delete(tag);
+        });
+        this.bytes -= entry.size;
         this.store.delete(key);
     }
 
@@ -108,4 +278,37 @@ export default class MemoryCache implements CacheStore {
     private ttlToMs(ttl: number): number {
         return ttl * 1000;
     }
+}
+
+/**
+ * Converts a glob pattern into an anchored regular expression, matching like Redis `MATCH` and SQLite `GLOB`:
+ * `*` any run of characters, `?` one character, `[abc]`/`[a-z]` one character of a class and `[^abc]` one outside it.
+ * A `[` without a closing `]` (or an empty class) is literal.
+ * @param {string} pattern - The glob pattern.
+ * @returns {RegExp} The equivalent regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+    const literal = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    let source = "";
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        const negated = char === "[" && pattern[i + 1] === "^";
+        const start = negated ? i + 2 : i + 1;
+        const end = char === "[" ? pattern.indexOf("]", start) : -1;
+
+        if (char === "*") {
+            source += ".*";
+        } else if (char === "?") {
+            source += ".";
+        } else if (end > start) {
+            const members = pattern.slice(start, end).replace(/[\\\]\[^]/g, "\\$&");
+            source += `[${negated ? "^" : ""}${members}]`;
+            i = end;
+        } else {
+            source += literal(char);
+        }
+    }
+
+    return new RegExp(`^${source}$`);
 }
\ No newline at end of file
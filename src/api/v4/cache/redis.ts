@@ -1,31 +1,58 @@
 import {RedisClient} from "bun";
 import {CacheStore} from "../types/cache-store";
 
+/**
+ * Number of keys requested per SCAN step and deleted per DEL batch when clearing.
+ */
+const SCAN_BATCH = 500;
+
 /**
  * A Redis-backed cache store implementation using Bun's Redis client.
  * Supports basic get/set/delete operations and optional TTL on set.
+ * Every key is written under a prefix (REDIS_KEY_PREFIX, default `jikan-lite:`), so the store can be cleared without
+ * touching other data in the same Redis database.
+ * Tags are Redis sets (`<prefix>tag:<tag>`) holding the keys stored with that tag.
  */
 export class RedisCache implements CacheStore {
     private readonly client: RedisClient
+    /** Prefix of every key (and pub/sub channel) written by this store. */
+    readonly prefix: string
 
     /**
      * Creates a new RedisCache instance.
-     * Uses the REDIS_URL environment variable for connection configuration.
+     * Uses the REDIS_URL environment variable for connection configuration and REDIS_KEY_PREFIX for the key prefix.
      *
      * Instantiates Bun's RedisClient with the configured URL and stores it for use in cache operations.
      */
     constructor() {
         this.client = new RedisClient(process.env.REDIS_URL);
+        this.prefix = process.env.REDIS_KEY_PREFIX ?? "jikan-lite:";
     }
 
     /**
-     * Clears the cache. Not implemented for RedisCache to avoid accidental FLUSH.
-     * Consider implementing with a key prefix strategy if needed.
+     * Deletes the keys under this store's prefix, optionally only those matching a pattern.
      *
-     * @returns {Promise<void>}
+     * Walks the keyspace incrementally with `SCAN ... MATCH <prefix><pattern>` (never `KEYS` or `FLUSHDB`, which would block
+     * the server or wipe unrelated data) and deletes each batch of matches as it is found. Tag sets are cleared along
+     * with entries when no pattern is given.
+     *
+     * @param {string} [pattern="*"] - Glob pattern over cache keys (without the prefix), e.g. `anime_*`.
+     * @returns {Promise<number>} Number of deleted keys.
      */
-    async clear(): Promise<void> {
-        console.error("Clear method not implemented for RedisCache");
+    async clear(pattern: string = "*"): Promise<number> {
+        const match = escapeGlob(this.prefix) + pattern;
+        let cursor = "0";
+        let deleted = 0;
+
+        do {
+            const [next, keys] = await this.client.send("SCAN", [cursor, "MATCH", match, "COUNT", String(SCAN_BATCH)]) as [string, string[]];
+            if (keys.length) {
+                deleted += await this.client.del(...keys);
+            }
+            cursor = String(next);
+        } while (cursor !== "0");
+
+        return deleted;
     }
 
     /**
@@ -35,7 +62,7 @@ export class RedisCache implements CacheStore {
      * @returns {Promise<void>}
      */
     async delete(key: string): Promise<void> {
-        await this.client.del(key);
+        await this.client.del(this.key(key));
     }
 
     /**
@@ -47,23 +74,105 @@ export class RedisCache implements CacheStore {
      */
     async get(key: string): Promise<string | null> {
         try {
-            return await this.client.get(key);
+            return await this.client.get(this.key(key));
         } catch (e) {
             return Promise.resolve(null);
         }
     }
 
     /**
-     * Stores a value in Redis, optionally setting an expiry time.
+     * Stores a value in Redis, optionally setting an expiry time and tags.
+     *
+     * The key is added to each tag's set; a tag set expires with the latest entry added to it, so it outlives its members
+     * (keys that expire earlier are simply absent when the tag is invalidated).
+     *
      * @param {string} key - The cache key to set.
      * @param {string} value - The string value to store.
      * @param {number} [ttl] - Optional TTL in seconds.
+     * @param {string[]} [tags] - Optional tags to invalidate the entry by.
      * @returns {Promise<void>}
      */
-    async set(key: string, value: string, ttl?: number): Promise<void> {
-        await this.client.set(key, value);
+    async set(key: string, value: string, ttl?: number, tags: string[] = []): Promise<void> {
+        await this.client.set(this.key(key), value);
         if (ttl) {
-            await this.client.expire(key, ttl);
+            await this.client.expire(this.key(key), ttl);
+        }
+
+        for (const tag of tags) {
+            await this.client.sadd(this.tagKey(tag), key);
+            if (ttl) {
+                await this.client.expire(this.tagKey(tag), ttl);
+            }
         }
     }
+
+    /**
+     * Deletes every key stored with any of the given tags, then the tag sets themselves.
+     *
+     * @param {string[]} tags - Tags to invalidate.
+     * @returns {Promise<void>}
+     */
+    async invalidateTags(tags: string[]): Promise<void> {
+        for (const tag of tags) {
+            const keys = await this.client.smembers(this.tagKey(tag));
+            if (keys.length) {
+                await this.client.del(...keys.map((key) => this.key(key)));
+            }
+            await this.client.del(this.tagKey(tag));
+        }
+    }
+
+    /**
+     * Lists the cache keys currently stored with any of the given tags.
+     *
+     * @param {string[]} tags - Tags to look up.
+     * @returns {Promise<string[]>} The (unprefixed) cache keys.
+     */
+    async keysForTags(tags: string[]): Promise<string[]> {
+        const keys: string[] = [];
+        for (const tag of tags) {
+            keys.push(...await this.client.smembers(this.tagKey(tag)));
+        }
+        return keys;
+    }
+
+    /**
+     * Publishes a message on a channel under this store's prefix.
+     *
+     * @param {string} channel - Channel name (without the prefix).
+     * @param {string} message - The message.
+     * @returns {Promise<void>}
+     */
+    async publish(channel: string, message: string): Promise<void> {
+        await this.client.publish(`${this.prefix}${channel}`, message);
+    }
+
+    /**
+     * Returns the Redis key of a cache key.
+     * @param {string} key - The cache key.
+     * @returns {string} The prefixed key.
+     * @private
+     */
+    private key(key: string): string {
+        return `${this.prefix}${key}`;
+    }
+
+    /**
+     * Returns the Redis key of the set tracking a tag's keys.
+     * @param {string} tag - The tag.
+     * @returns {string} The tag set key.
+     * @private
+     */
+    private tagKey(tag: string): string {
+        return `${this.prefix}tag:${tag}`;
+    }
+}
+
+/**
+ * Escapes Redis glob metacharacters so a literal string (the key prefix) can start a MATCH pattern.
+ * @param {string} value - The literal string.
+ * @returns {string} The escaped pattern fragment.
+ */
+function escapeGlob(value: string): string {
+    return value.replace(/[*?[\]\\]/g, "\\$&");
 }
\ No newline at end of file
@@ -0,0 +1,172 @@
+import {Database, SQLiteError} from "bun:sqlite";
+import {CacheStore} from "../types/cache-store";
+
+const CLEANUP_INTERVAL = process.env.CACHE_SQLITE_CLEANUP_INTERVAL ? parseInt(process.env.CACHE_SQLITE_CLEANUP_INTERVAL) : 300;
+const BUSY_TIMEOUT = process.env.CACHE_SQLITE_BUSY_TIMEOUT ? parseInt(process.env.CACHE_SQLITE_BUSY_TIMEOUT) : 5000;
+
+/**
+ * A persistent cache store backed by its own SQLite database file, for deployments without Redis.
+ *
+ * Entries survive restarts and are shared by every server process opening the same file (WAL mode lets them read while
+ * one writes). Expired entries are ignored on read and deleted by a periodic cleanup (CACHE_SQLITE_CLEANUP_INTERVAL,
+ * default 300 seconds). The cache lives outside the application database so it can be deleted at any time and never
+ * goes through schema migrations.
+ *
+ * A write waits up to CACHE_SQLITE_BUSY_TIMEOUT (default 5000 ms) for another process's lock; if the file is still busy,
+ * the write is logged and skipped rather than failing the request.
+ */
+export class SqliteCache implements CacheStore {
+    private readonly db: Database;
+    private readonly cleanup: ReturnType<typeof setInterval>;
+
+    /**
+     * Opens (creating if needed) the cache database and starts the cleanup timer.
+     * Uses the CACHE_SQLITE_FILENAME environment variable, defaulting to 'cache.sqlite', and waits up to
+     * CACHE_SQLITE_BUSY_TIMEOUT milliseconds for locks held by other processes.
+     * The cleanup timer is unref'd so it never keeps the process alive.
+     *
+     * @param {string} [filename] - Database file to use instead of CACHE_SQLITE_FILENAME.
+     */
+    constructor(filename: string = process.env.CACHE_SQLITE_FILENAME || 'cache.sqlite') {
+        this.db = new Database(filename);
+        this.db.run(`PRAGMA busy_timeout = ${BUSY_TIMEOUT};`);
+        this.db.run("PRAGMA journal_mode = WAL;");
+        this.db.run(`
+            CREATE TABLE IF NOT EXISTS [cache_entries] (
+              [key] TEXT PRIMARY KEY,
+              [value] TEXT,
+              [expires_at] INT NULL
+            );
+        `);
+        this.db.run(`CREATE INDEX IF NOT EXISTS [cache_entries_expires_at] ON [cache_entries] ([expires_at]);`);
+        this.db.run(`
+            CREATE TABLE IF NOT EXISTS [cache_tags] (
+              [tag] TEXT,
+              [key] TEXT,
+              PRIMARY KEY ([tag], [key])
+            );
+        `);
+        this.db.run(`CREATE INDEX IF NOT EXISTS [cache_tags_key] ON [cache_tags] ([key]);`);
+
+        this.cleanup = setInterval(() => {
+            try {
+                this.deleteExpired();
+            } catch (e) {
+                console.error("[cache] SQLite cache cleanup failed:", e);
+            }
+        }, CLEANUP_INTERVAL * 1000);
+        this.cleanup.unref?.();
+    }
+
+    /**
+     * Retrieves a value by key; expired entries read as missing.
+     * A read that stays blocked by another process is logged and treated as a miss.
+     *
+     * @param {string} key - Cache key to read.
+     * @returns {Promise<string | null>} The cached value or null if missing/expired.
+     */
+    async get(key: string): Promise<string | null> {
+        return this.unlessBusy(`get ${key}`, null, () => {
+            const row: any = this.db.query("SELECT [value] FROM [cache_entries] WHERE [key] = ? AND ([expires_at] IS NULL OR [expires_at] > ?)")
+                .get(key, Date.now());
+            return row ? row.value as string : null;
+        });
+    }
+
+    /**
+     * Stores a value with an optional TTL and tags, replacing any previous entry and its tags.
+     *
+     * @param {string} key - Cache key to set.
+     * @param {string} value - Value to store.
+     * @param {number} [ttl] - Optional time-to-live in seconds.
+     * @param {string[]} [tags] - Optional tags to invalidate the entry by.
+     * @returns {Promise<void>}
+     */
+    async set(key: string, value: string, ttl?: number, tags: string[] = []): Promise<void> {
+        const expiresAt = ttl && ttl > 0 ? Date.now() + ttl * 1000 : null;
+
+        this.unlessBusy(`set ${key}`, undefined, this.db.transaction(() => {
+            this.db.query("INSERT OR REPLACE INTO [cache_entries] ([key], [value], [expires_at]) VALUES (?, ?, ?)").run(key, value, expiresAt);
+            this.db.query("DELETE FROM [cache_tags] WHERE [key] = ?").run(key);
+            const insertTag = this.db.query("INSERT OR IGNORE INTO [cache_tags] ([tag], [key]) VALUES (?, ?)");
+            tags.forEach((tag) => insertTag.run(tag, key));
+        }));
+    }
+
+    /**
+     * Deletes a single entry and its tags.
+     *
+     * @param {string} key - Cache key to delete.
+     * @returns {Promise<void>}
+     */
+    async delete(key: string): Promise<void> {
+        this.unlessBusy(`delete ${key}`, undefined, this.db.transaction(() => {
+            this.db.query("DELETE FROM [cache_entries] WHERE [key] = ?").run(key);
+            this.db.query("DELETE FROM [cache_tags] WHERE [key] = ?").run(key);
+        }));
+    }
+
+    /**
+     * Deletes every entry stored with any of the given tags.
+     *
+     * @param {string[]} tags - Tags to invalidate.
+     * @returns {Promise<void>}
+     */
+    async invalidateTags(tags: string[]): Promise<void> {
+        if (!tags.length) return;
+
+        this.unlessBusy(`invalidate ${tags.join(", ")}`, undefined, this.db.transaction(() => {
+            const deleteEntries = this.db.query("DELETE FROM [cache_entries] WHERE [key] IN (SELECT [key] FROM [cache_tags] WHERE [tag] = ?)");
+            const deleteTags = this.db.query("DELETE FROM [cache_tags] WHERE [key] IN (SELECT [key] FROM [cache_tags] WHERE [tag] = ?)");
+            tags.forEach((tag) => {
+                deleteEntries.run(tag);
+                deleteTags.run(tag);
+            });
+        }));
+    }
+
+    /**
+     * Deletes all entries, or only those whose key matches a glob pattern (SQLite `GLOB`: `*`, `?` and `[...]`).
+     * Unlike request-path writes, failures (including a busy file) are thrown so `cache:clear` reports them.
+     *
+     * @param {string} [pattern] - Glob pattern over keys, e.g. `anime_*`; all entries when omitted.
+     * @returns {Promise<number>} Number of deleted entries.
+     */
+    async clear(pattern: string = "*"): Promise<number> {
+        return this.db.transaction(() => {
+            const result = this.db.query("DELETE FROM [cache_entries] WHERE [key] GLOB ?").run(pattern);
+            this.db.query("DELETE FROM [cache_tags] WHERE [key] GLOB ?").run(pattern);
+            return result.changes;
+        })();
+    }
+
+    /**
+     * Deletes expired entries and the tags of entries that no longer exist; runs on the cleanup timer.
+     * @private
+     */
+    private deleteExpired() {
+        this.unlessBusy("cleanup", undefined, this.db.transaction(() => {
+            this.db.query("DELETE FROM [cache_entries] WHERE [expires_at] IS NOT NULL AND [expires_at] <= ?").run(Date.now());
+            this.db.query("DELETE FROM [cache_tags] WHERE [key] NOT IN (SELECT [key] FROM [cache_entries])").run();
+        }));
+    }
+
+    /**
+     * Runs a cache operation, logging and skipping it when the database stays locked by another process past the busy
+     * timeout; other errors are rethrown.
+     * @param {string} operation - Description of the operation for the log.
+     * @param {T} fallback - Result to return when the database is busy.
+     * @param {() => T} fn - The operation.
+     * @returns {T} The operation's result, or the fallback.
+     * @private
+     */
+    private unlessBusy<T>(operation: string, fallback: T, fn: () => T): T {
+        try {
+            return fn();
+        } catch (e) {
+            if (!(e instanceof SQLiteError) || !e.code?.startsWith("SQLITE_BUSY")) throw e;
+            console.warn(`[cache] SQLite cache busy, skipped ${operation}:`, e.message);
+            return fallback;
+        }
+    }
+}
\ No newline at end of file
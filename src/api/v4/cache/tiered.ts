@@ -0,0 +1,167 @@
+import {RedisClient} from "bun";
+import {CacheStats, CacheStore} from "../types/cache-store";
+import MemoryCache from "./memory";
+import {RedisCache} from "./redis";
+
+const L1_TTL = process.env.CACHE_L1_TTL ? parseInt(process.env.CACHE_L1_TTL) : 30;
+const L1_MAX_ENTRIES = process.env.CACHE_L1_MAX_ENTRIES ? parseInt(process.env.CACHE_L1_MAX_ENTRIES) : 1000;
+
+/**
+ * Pub/sub channel (under the Redis key prefix) carrying invalidations between server instances.
+ */
+const INVALIDATION_CHANNEL = "invalidate";
+
+/**
+ * An invalidation broadcast to other instances: drop these keys, or every key matching the pattern.
+ */
+type Invalidation = {
+    origin: string;
+    keys?: string[];
+    pattern?: string;
+};
+
+/**
+ * A two-tier cache: a small per-process MemoryCache (L1) in front of the shared RedisCache (L2).
+ *
+ * Reads are served from L1 when possible and otherwise read through from Redis, keeping a copy in L1 for a short TTL
+ * (CACHE_L1_TTL, default 30 seconds). Writes go to both tiers. Because every `reusePort` server instance has its own
+ * L1, each write, delete, tag invalidation or clear is also published on Redis pub/sub so the other instances drop
+ * their L1 copies; the short L1 TTL bounds staleness if a message is missed.
+ */
+export class TieredCache implements CacheStore {
+    private readonly l1: MemoryCache;
+    private readonly l2: RedisCache;
+    private readonly subscriber: RedisClient;
+    private readonly origin = crypto.randomUUID();
+
+    /**
+     * Creates a new TieredCache and subscribes to invalidations from other instances.
+     *
+     * The L1 holds at most CACHE_L1_MAX_ENTRIES (default 1000) entries. Pub/sub needs a dedicated Redis connection,
+     * since a subscribed client cannot issue other commands.
+     */
+    constructor() {
+        this.l1 = new MemoryCache({maxEntries: L1_MAX_ENTRIES});
+        this.l2 = new RedisCache();
+        this.subscriber = new RedisClient(process.env.REDIS_URL);
+
+        this.subscriber.subscribe(`${this.l2.prefix}${INVALIDATION_CHANNEL}`, (message) => this.onInvalidation(message))
+            .catch((e) => console.error("[cache] Subscribing to invalidations failed:", e));
+    }
+
+    /**
+     * Retrieves a value from L1, falling back to Redis and keeping a short-lived L1 copy of hits.
+     *
+     * @param {string} key - Cache key to read.
+     * @returns {Promise<string | null>} The cached value or null if missing.
+     */
+    async get(key: string): Promise<string | null> {
+        const local = await this.l1.get(key);
+        if (local !== null) return local;
+
+        const value = await this.l2.get(key);
+        if (value !== null) {
+            await this.l1.set(key, value, L1_TTL);
+        }
+        return value;
+    }
+
+    /**
+     * Stores a value in Redis and L1, and tells other instances to drop their L1 copy of the key.
+     *
+     * @param {string} key - Cache key to set.
+     * @param {string} value - Value to store.
+     * @param {number} [ttl] - Optional time-to-live in seconds (L1 keeps it for at most CACHE_L1_TTL).
+     * @param {string[]} [tags] - Optional tags to invalidate the entry by.
+     * @returns {Promise<void>}
+     */
+    async set(key: string, value: string, ttl?: number, tags: string[] = []): Promise<void> {
+        await this.l2.set(key, value, ttl, tags);
+        await this.l1.set(key, value, ttl ? Math.min(ttl, L1_TTL) : L1_TTL, tags);
+        await this.broadcast({keys: [key]});
+    }
+
+    /**
+     * Deletes a key from both tiers on every instance.
+     *
+     * @param {string} key - Cache key to delete.
+     * @returns {Promise<void>}
+     */
+    async delete(key: string): Promise<void> {
+        await this.l2.delete(key);
+        await this.l1.delete(key);
+        await this.broadcast({keys: [key]});
+    }
+
+    /**
+     * Deletes every entry stored with any of the given tags from both tiers on every instance.
+     *
+     * The tagged keys are resolved from Redis before invalidating, so other instances can drop exactly those keys
+     * (their L1 may hold read-through copies that were stored without tags).
+     *
+     * @param {string[]} tags - Tags to invalidate.
+     * @returns {Promise<void>}
+     */
+    async invalidateTags(tags: string[]): Promise<void> {
+        const keys = await this.l2.keysForTags(tags);
+        await this.l2.invalidateTags(tags);
+        await this.l1.invalidateTags(tags);
+        keys.forEach((key) => this.l1.delete(key));
+        if (keys.length) await this.broadcast({keys});
+    }
+
+    /**
+     * Clears both tiers on every instance, optionally only keys matching a glob pattern.
+     *
+     * @param {string} [pattern] - Glob pattern over cache keys, e.g. `anime_*`; everything when omitted.
+     * @returns {Promise<number>} Number of keys deleted from Redis.
+     */
+    async clear(pattern?: string): Promise<number> {
+        const deleted = await this.l2.clear(pattern);
+        await this.l1.clear(pattern);
+        await this.broadcast({pattern: pattern ?? "*"});
+        return deleted;
+    }
+
+    /**
+     * Returns the L1 counters of this instance for monitoring.
+     *
+     * @returns {CacheStats} L1 hits, misses, evictions and size.
+     */
+    stats(): CacheStats {
+        return {...this.l1.stats(), store: "tiered"};
+    }
+
+    /**
+     * Publishes an invalidation to the other instances.
+     * Publishing failures are logged rather than thrown; the short L1 TTL bounds how long other instances stay stale.
+     * @param {Omit<Invalidation, "origin">} invalidation - Keys or pattern to drop.
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async broadcast(invalidation: Omit<Invalidation, "origin">): Promise<void> {
+        try {
+            await this.l2.publish(INVALIDATION_CHANNEL, JSON.stringify({...invalidation, origin: this.origin}));
+        } catch (e) {
+            console.error("[cache] Publishing invalidation failed:", e);
+        }
+    }
+
+    /**
+     * Applies an invalidation published by another instance to this instance's L1.
+     * @param {string} message - The JSON-encoded Invalidation.
+     * @private
+     */
+    private onInvalidation(message: string) {
+        let invalidation: Invalidation;
+        try {
+            invalidation = JSON.parse(message);
+        } catch {
+            return;
+        }
+        if (invalidation.origin === this.origin) return;
+
+        invalidation.keys?.forEach((key) => this.l1.delete(key));
+        if (invalidation.pattern) this.l1.clear(invalidation.pattern);
+    }
+}
\ No newline at end of file
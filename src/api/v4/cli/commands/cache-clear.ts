@@ -0,0 +1,35 @@
+import {clearCache} from "../../cache";
+
+/**
+ * Clears the configured cache store (CACHE_STORE), optionally only keys matching `--pattern`.
+ *
+ * Redis entries are removed by prefix-scoped SCAN + DEL, so this is safe on a shared Redis database; with the tiered
+ * store, running servers also drop their in-memory copies via pub/sub. The SQLite store is cleared in its shared file.
+ * The memory store lives inside each server process and cannot be reached from the CLI, so it is rejected as unsupported;
+ * restart the server instead.
+ *
+ * @param {string[]} argv - CLI arguments (`--pattern <glob>`, e.g. `anime_*`).
+ * @returns {Promise<number>} Exit code (0 = success, 1 = failure or unsupported store).
+ */
+export async function runCacheClear(argv: string[]): Promise<number> {
+    const i = argv.indexOf("--pattern");
+    const pattern = i === -1 ? undefined : argv[i + 1];
+
+    if (process.env.CACHE_ENABLED !== "true") {
+        console.log(`[cache:clear] Caching is disabled (CACHE_ENABLED is not 'true'); nothing to clear`);
+        return 0;
+    }
+    if (process.env.CACHE_STORE === "memory") {
+        console.error(`[cache:clear] Unsupported for the memory store: it lives inside each server process; restart the server to clear its cache`);
+        return 1;
+    }
+
+    try {
+        const cleared = await clearCache(pattern);
+        console.log(`[cache:clear] Cleared ${cleared} entries from the ${process.env.CACHE_STORE} store${pattern ? ` matching ${pattern}` : ""}`);
+        return 0;
+    } catch (e) {
+        console.error(`[cache:clear] Failed:`, e);
+        return 1;
+    }
+}
\ No newline at end of file
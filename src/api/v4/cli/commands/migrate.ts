@@ -0,0 +1,63 @@
+import {getDatabase} from "../../database";
+import {Migrator} from "../../database/migrator";
+
+/**
+ * Applies, reverts or lists schema migrations.
+ *
+ * Actions:
+ * - `up [--to <version>]`: apply pending migrations (up to and including `--to`).
+ * - `down [--steps <n>]`: revert the latest `n` applied migrations (default 1).
+ * - `status`: list every migration and whether it is applied.
+ *
+ * @param {string[]} argv - CLI arguments: the action followed by its options.
+ * @returns {Promise<number>} Exit code (0 = success, 1 = unknown action or failed migration).
+ */
+export async function runMigrate(argv: string[]): Promise<number> {
+    const [action = "status", ...rest] = argv;
+    const migrator = new Migrator(getDatabase());
+
+    try {
+        switch (action) {
+            case "up": {
+                const to = readNumberFlag(rest, "--to");
+                const applied = migrator.up(to);
+                applied.forEach((m) => console.log(`[migrate] Applied ${m.version} ${m.name}`));
+                if (!applied.length) console.log(`[migrate] Already up to date`);
+                return 0;
+            }
+            case "down": {
+                const steps = readNumberFlag(rest, "--steps") ?? 1;
+                const reverted = migrator.down(steps);
+                reverted.forEach((m) => console.log(`[migrate] Reverted ${m.version} ${m.name}`));
+                if (!reverted.length) console.log(`[migrate] Nothing to revert`);
+                return 0;
+            }
+            case "status": {
+                for (const m of migrator.status()) {
+                    const state = m.applied_at ? `applied ${m.applied_at}` : "pending";
+                    console.log(`[migrate] ${String(m.version).padStart(3, "0")} ${m.name.padEnd(28)} ${state}`);
+                }
+                return 0;
+            }
+            default:
+                console.error(`[migrate] Unknown action: ${action} (expected up, down or status)`);
+                return 1;
+        }
+    } catch (e) {
+        console.error(`[migrate] Failed:`, e);
+        return 1;
+    }
+}
+
+/**
+ * Reads a numeric `--flag <n>` option.
+ * @param {string[]} argv - The CLI arguments.
+ * @param {string} name - Flag name including dashes.
+ * @returns {number | undefined} The value, or undefined when the flag is absent or not a number.
+ */
+function readNumberFlag(argv: string[], name: string): number | undefined {
+    const i = argv.indexOf(name);
+    if (i === -1) return undefined;
+    const value = Number(argv[i + 1]);
+    return Number.isFinite(value) ? value : undefined;
+}
\ No newline at end of file
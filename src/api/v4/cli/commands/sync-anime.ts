@@ -2,147 +2,54 @@ import {Anime} from "../../types";
 import {getDatabase} from "../../database";
 import AnimeService from "../../services/anime-service";
 import {AnimeRepository} from "../../database/repository/anime-repository";
-import {promises as fs} from "fs";
-import * as path from "node:path";
+import {fetchIdList, parseFlags, resolveStartIndex, writeProgress} from "../utils";
+import {jikanFetch} from "../../upstream";
+import {FreshnessPolicy, GetFreshnessPolicy} from "../../utils/freshness";
 
 const IDS_URL =
     "https://raw.githubusercontent.com/purarue/mal-id-cache/refs/heads/master/cache/anime_cache.json";
 
-// simple progress storage on disk (project root)
-const PROGRESS_FILE = path.join(process.cwd(), ".jikan-lite-progress.json");
-
-type ProgressShape = {
-    anime?: {
-        lastIndex: number; // last processed overall index in the ID list
-        updatedAt: string;
-    };
-};
-
-/**
- * Reads the progress of anime synchronization from disk.
- * Returns the last processed index and update timestamp if available.
- * @returns {Promise<ProgressShape>} The progress data or an empty object if not found.
- */
-async function readProgress(): Promise<ProgressShape> {
-    try {
-        const data = await fs.readFile(PROGRESS_FILE, "utf8");
-        return JSON.parse(data) as ProgressShape;
-    } catch {
-        return {} as ProgressShape;
-    }
-}
-
-/**
- * Writes the current progress of anime synchronization to disk.
- * Updates the last processed index and timestamp for the given kind.
- * @param {keyof ProgressShape} kind - The progress type to update.
- * @param {number} lastIndex - The last processed index.
- * @returns {Promise<void>}
- */
-async function writeProgress(kind: keyof ProgressShape, lastIndex: number) {
-    const prev = await readProgress();
-    const now = new Date().toISOString();
-    const next: ProgressShape = {
-        ...prev,
-        [kind]: {lastIndex, updatedAt: now} as any,
-    };
-    await fs.writeFile(PROGRESS_FILE, JSON.stringify(next, null, 2), "utf8");
-}
-
-/**
- * Parses CLI flags from the provided argument array.
- * Supports --limit, --from-index, --force-update, and --resume.
- * @param {string[]} argv - The CLI arguments.
- * @returns {object} Parsed flags.
- */
-function parseFlags(argv: string[]) {
-    const flags: { limit?: number; fromIndex?: number; forceUpdate?: boolean; resume?: boolean } = {};
-    for (let i = 0; i < argv.length; i++) {
-        const a = argv[i];
-        if (a === "--limit") flags.limit = Number(argv[++i]);
-        else if (a === "--from-index") flags.fromIndex = Number(argv[++i]);
-        else if (a === "--force-update") flags.forceUpdate = true;
-        else if (a === "--resume") flags.resume = true;
-    }
-    return flags;
-}
-
-/**
- * Delays execution for a specified number of milliseconds.
- * @param {number} ms - Milliseconds to sleep.
- * @returns {Promise<void>}
- */
-async function sleep(ms: number) {
-    return new Promise((r) => setTimeout(r, ms));
-}
-
-/**
- * Fetches JSON data from a URL with retry and exponential backoff.
- * Throws the last error if all retries fail.
- * @param {string} url - The URL to fetch.
- * @param {number} [retries=3] - Number of retry attempts.
- * @param {number} [backoffMs=500] - Initial backoff in milliseconds.
- * @returns {Promise<any>} The fetched JSON data.
- * @throws {Error} If all retries fail.
- */
-async function fetchWithRetry(url: string, retries = 3, backoffMs = 500): Promise<any> {
-    let lastErr: unknown;
-    for (let i = 0; i <= retries; i++) {
-        try {
-            const res = await fetch(url, {headers: {"User-Agent": "jikan-lite-cli"}});
-            if (!res.ok) throw new Error(`HTTP ${res.status}`);
-            return await res.json();
-        } catch (e) {
-            lastErr = e;
-            if (i === retries) break;
-            await sleep(backoffMs * (i + 1));
-        }
-    }
-    throw lastErr;
-}
-
 /**
  * Synchronizes anime data from the MAL ID list to the local database.
  * Downloads the ID list, processes each anime, and updates progress.
  * Supports options for limiting, resuming, and forcing updates.
+ *
+ * With --stale, the IDs instead come from the local table: rows whose last sync is older than the freshness policy
+ * (or --older-than hours), airing and upcoming entries first, oldest first. These are always re-fetched; progress is
+ * not recorded because refreshed rows drop out of the selection on the next run (failed ones too, until their next window).
  * @param {string[]} argv - CLI arguments for sync options.
  * @returns {Promise<void>}
  */
 export async function runSyncAnime(argv: string[]) {
-    const {limit, fromIndex = 0, forceUpdate = false, resume = false} = parseFlags(argv);
+    const {limit, fromIndex = 0, forceUpdate = false, resume = false, stale = false, olderThan} = parseFlags(argv);
 
     console.log(`[sync:anime] Starting...`);
-    console.log(`[sync:anime] Options => fromIndex=${fromIndex}, limit=${limit ?? '∞'}, forceUpdate=${forceUpdate}, resume=${resume}`);
+    console.log(`[sync:anime] Options => fromIndex=${fromIndex}, limit=${limit ?? '∞'}, forceUpdate=${forceUpdate}, resume=${resume}, stale=${stale}`);
 
-    // Load ID list
-    console.log(`[sync:anime] Downloading MAL ID list from: ${IDS_URL}`);
-    const idsResp: any = await fetchWithRetry(IDS_URL);
-    type IdsResponse = { sfw?: number[]; nsfw?: number[] } | number[];
-    const normalized: number[] = Array.isArray(idsResp)
-        ? (idsResp as number[])
-        : [
-            ...(((idsResp as IdsResponse as any)?.sfw ?? []) as number[]),
-            ...(((idsResp as IdsResponse as any)?.nsfw ?? []) as number[]),
-        ];
-    const idList: number[] = normalized.filter((v) => typeof v === "number");
+    const db = getDatabase();
+    const repo = new AnimeRepository(db);
+    const service = new AnimeService(repo);
 
-    // Determine start index considering resume option
-    let startIndex = fromIndex;
-    if (resume) {
-        const prog = await readProgress();
-        const saved = prog?.anime?.lastIndex;
-        if (typeof saved === "number" && saved >= -1) {
-            startIndex = Math.max(startIndex, saved + 1);
-        }
+    let idList: number[];
+    let startIndex: number;
+    if (stale) {
+        // Load stale IDs from the local table
+        const policy = typeof olderThan === "number" ? uniformPolicy(olderThan * 60 * 60) : GetFreshnessPolicy();
+        console.log(`[sync:anime] Selecting stale anime (airing > ${policy.airing}s, upcoming > ${policy.upcoming}s, finished > ${policy.finished}s)`);
+        idList = await repo.findStaleIds(policy);
+        startIndex = fromIndex;
+    } else {
+        // Load ID list
+        console.log(`[sync:anime] Downloading MAL ID list from: ${IDS_URL}`);
+        idList = await fetchIdList(IDS_URL);
+
+        // Determine start index considering resume option
+        startIndex = await resolveStartIndex("anime", fromIndex, resume);
     }
 
     const slice = typeof limit === "number" ? idList.slice(startIndex, startIndex + limit) : idList.slice(startIndex);
     console.log(`[sync:anime] Total IDs available: ${idList.length}; Starting at index ${startIndex}; To process: ${slice.length}`);
 
-    const db = getDatabase();
-    const repo = new AnimeRepository(db);
-    const service = new AnimeService(repo);
-
     let processed = 0;
     let created = 0;
     let updated = 0;
@@ -152,15 +59,14 @@ export async function runSyncAnime(argv: string[]) {
     for (let i = 0; i < slice.length; i++) {
         const malId = slice[i];
         const currentIndex = startIndex + i;
-        const start = Date.now();
         try {
             let exists = await service.findById(malId);
-            if (exists && !forceUpdate) {
+            if (exists && !forceUpdate && !stale) {
                 skipped++;
                 processed++;
                 console.log(`- [skip] [#${currentIndex}] ${malId} already exists`);
             } else {
-                const json = await fetchWithRetry(`https://api.jikan.moe/v4/anime/${malId}`);
+                const json = await jikanFetch(`/anime/${malId}`);
                 const anime = (json?.data ?? null) as Anime | null;
                 if (!anime) throw new Error("No data field in response");
 
@@ -178,19 +84,25 @@ export async function runSyncAnime(argv: string[]) {
         } catch (e) {
             failed++;
             console.error(`- [error] [#${currentIndex}] ${malId}:`, e);
+            // Back off stale rows that fail to refresh (e.g. removed upstream) instead of retrying them every run
+            if (stale) await service.recordSyncAttempt(malId).catch(() => undefined);
         } finally {
-            // persist last processed index
+            // persist last processed index (the stale selection is recomputed on every run instead)
             try {
-                await writeProgress("anime", currentIndex);
+                if (!stale) await writeProgress("anime", currentIndex);
             } catch {
             }
         }
-
-        // Ensure 1 second delay between each sync iteration
-        const elapsed = Date.now() - start;
-        const remaining = Math.max(0, 1000 - elapsed);
-        if (remaining > 0) await sleep(remaining);
     }
 
     console.log(`[sync:anime] Done. Processed=${processed} created=${created} updated=${updated} skipped=${skipped} failed=${failed}`);
+}
+
+/**
+ * Builds a freshness policy applying the same maximum age to every airing state.
+ * @param {number} seconds - Maximum age in seconds.
+ * @returns {FreshnessPolicy} The uniform policy.
+ */
+function uniformPolicy(seconds: number): FreshnessPolicy {
+    return {airing: seconds, upcoming: seconds, finished: seconds};
 }
\ No newline at end of file
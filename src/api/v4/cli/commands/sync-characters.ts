@@ -0,0 +1,87 @@
+import {AnimeCharacter, Character} from "../../types";
+import {getDatabase} from "../../database";
+import CharacterService from "../../services/character-service";
+import {CharacterRepository} from "../../database/repository/character-repository";
+import {AnimeRepository} from "../../database/repository/anime-repository";
+import {parseFlags, resolveStartIndex, writeProgress} from "../utils";
+import {jikanFetch} from "../../upstream";
+
+/**
+ * Synchronizes characters for anime already stored in the local database.
+ * Walks the local anime IDs, fetches each anime's character list (roles and voice actors) and links it.
+ * Supports options for limiting, resuming, forcing updates and fetching full character details.
+ * @param {string[]} argv - CLI arguments for sync options.
+ * @returns {Promise<void>}
+ */
+export async function runSyncCharacters(argv: string[]) {
+    const {limit, fromIndex = 0, forceUpdate = false, resume = false, details = false} = parseFlags(argv);
+
+    console.log(`[sync:characters] Starting...`);
+    console.log(`[sync:characters] Options => fromIndex=${fromIndex}, limit=${limit ?? '∞'}, forceUpdate=${forceUpdate}, resume=${resume}, details=${details}`);
+
+    const db = getDatabase();
+    const animeRepo = new AnimeRepository(db);
+    const service = new CharacterService(new CharacterRepository(db));
+
+    const idList = await animeRepo.findAllIds();
+
+    // Determine start index considering resume option
+    const startIndex = await resolveStartIndex("characters", fromIndex, resume);
+
+    const slice = typeof limit === "number" ? idList.slice(startIndex, startIndex + limit) : idList.slice(startIndex);
+    console.log(`[sync:characters] Total local anime: ${idList.length}; Starting at index ${startIndex}; To process: ${slice.length}`);
+
+    let processed = 0;
+    let linked = 0;
+    let detailed = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (let i = 0; i < slice.length; i++) {
+        const animeId = slice[i];
+        const currentIndex = startIndex + i;
+        try {
+            let existing = await service.findByAnimeId(animeId);
+            let characters = existing ?? [];
+            if (existing && !forceUpdate) {
+                skipped++;
+                console.log(`- [skip] [#${currentIndex}] anime ${animeId} already has ${existing.length} characters`);
+            } else {
+                const json = await jikanFetch(`/anime/${animeId}/characters`);
+                const entries = (json?.data ?? null) as AnimeCharacter[] | null;
+                if (!Array.isArray(entries)) throw new Error("No data field in response");
+
+                characters = await service.saveAnimeCharacters(animeId, entries);
+                linked += characters.length;
+                console.log(`- [link] [#${currentIndex}] anime ${animeId}: ${characters.length} characters`);
+            }
+
+            if (details) {
+                for (const entry of characters) {
+                    const characterId = entry.character.mal_id;
+                    if (await service.hasDetails(characterId)) continue;
+
+                    const json = await jikanFetch(`/characters/${characterId}`);
+                    const character = (json?.data ?? null) as Character | null;
+                    if (character) {
+                        await service.update(characterId, character);
+                        detailed++;
+                        console.log(`  - [details] ${characterId} ${character.name ?? ''}`);
+                    }
+                }
+            }
+            processed++;
+        } catch (e) {
+            failed++;
+            console.error(`- [error] [#${currentIndex}] anime ${animeId}:`, e);
+        } finally {
+            // persist last processed index
+            try {
+                await writeProgress("characters", currentIndex);
+            } catch {
+            }
+        }
+    }
+
+    console.log(`[sync:characters] Done. Processed=${processed} linked=${linked} detailed=${detailed} skipped=${skipped} failed=${failed}`);
+}
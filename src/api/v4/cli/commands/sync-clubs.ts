@@ -0,0 +1,86 @@
+import {Club} from "../../types";
+import {getDatabase} from "../../database";
+import ClubService from "../../services/club-service";
+import {ClubRepository} from "../../database/repository/club-repository";
+import {parseFlags, resolveStartIndex, writeProgress} from "../utils";
+import {jikanFetch} from "../../upstream";
+
+/**
+ * Consecutive failed pages after which the sync stops, since the listing's end is unknown while pages keep failing.
+ */
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Synchronizes clubs from the paged Jikan club listing to the local database.
+ * There is no MAL ID list for clubs, so each index is a listing page (index 0 is page 1) holding up to 25 clubs.
+ * Supports options for limiting (in pages), resuming, and forcing updates.
+ * Stops after MAX_CONSECUTIVE_FAILURES failed pages in a row (each already retried by `jikanFetch`) and reports where to resume.
+ * @param {string[]} argv - CLI arguments for sync options.
+ * @returns {Promise<void>}
+ */
+export async function runSyncClubs(argv: string[]) {
+    const {limit, fromIndex = 0, forceUpdate = false, resume = false} = parseFlags(argv);
+
+    console.log(`[sync:clubs] Starting...`);
+    console.log(`[sync:clubs] Options => fromIndex=${fromIndex}, limit=${limit ?? '∞'}, forceUpdate=${forceUpdate}, resume=${resume}`);
+
+    // Determine start index considering resume option
+    const startIndex = await resolveStartIndex("clubs", fromIndex, resume);
+    console.log(`[sync:clubs] Starting at page ${startIndex + 1}; Pages to process: ${limit ?? 'all'}`);
+
+    const db = getDatabase();
+    const repo = new ClubRepository(db);
+    const service = new ClubService(repo);
+
+    let processed = 0;
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    let failed = 0;
+    let consecutiveFailures = 0;
+
+    let hasNextPage = true;
+    for (let i = 0; hasNextPage && (typeof limit !== "number" || i < limit); i++) {
+        const currentIndex = startIndex + i;
+        const page = currentIndex + 1;
+        try {
+            const json = await jikanFetch(`/clubs?page=${page}&order_by=mal_id&sort=asc`);
+            const clubs = (json?.data ?? null) as Club[] | null;
+            if (!Array.isArray(clubs)) throw new Error("No data field in response");
+            hasNextPage = json?.pagination?.has_next_page === true;
+
+            for (const club of clubs) {
+                let exists = await service.findById(club.mal_id);
+                if (exists && !forceUpdate) {
+                    skipped++;
+                } else if (exists) {
+                    await service.update(club.mal_id, club);
+                    updated++;
+                } else {
+                    await service.create(club);
+                    created++;
+                }
+                processed++;
+            }
+            console.log(`- [page] [#${currentIndex}] page ${page}: ${clubs.length} clubs`);
+            consecutiveFailures = 0;
+        } catch (e) {
+            failed++;
+            consecutiveFailures++;
+            console.error(`- [error] [#${currentIndex}] page ${page}:`, e);
+            if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+                hasNextPage = false;
+                const resumeIndex = currentIndex - consecutiveFailures + 1;
+                console.error(`[sync:clubs] Stopping after ${consecutiveFailures} failed pages in a row; rerun with --from-index ${resumeIndex} to continue`);
+            }
+        } finally {
+            // persist last processed index
+            try {
+                await writeProgress("clubs", currentIndex);
+            } catch {
+            }
+        }
+    }
+
+    console.log(`[sync:clubs] Done. Processed=${processed} created=${created} updated=${updated} skipped=${skipped} failed=${failed} (failed counts pages)`);
+}
@@ -0,0 +1,82 @@
+import {Manga} from "../../types";
+import {getDatabase} from "../../database";
+import MangaService from "../../services/manga-service";
+import {MangaRepository} from "../../database/repository/manga-repository";
+import {fetchIdList, parseFlags, resolveStartIndex, writeProgress} from "../utils";
+import {jikanFetch} from "../../upstream";
+
+const IDS_URL =
+    "https://raw.githubusercontent.com/purarue/mal-id-cache/refs/heads/master/cache/manga_cache.json";
+
+/**
+ * Synchronizes manga data from the MAL ID list to the local database.
+ * Downloads the ID list, processes each manga, and updates progress.
+ * Supports options for limiting, resuming, and forcing updates.
+ * @param {string[]} argv - CLI arguments for sync options.
+ * @returns {Promise<void>}
+ */
+export async function runSyncManga(argv: string[]) {
+    const {limit, fromIndex = 0, forceUpdate = false, resume = false} = parseFlags(argv);
+
+    console.log(`[sync:manga] Starting...`);
+    console.log(`[sync:manga] Options => fromIndex=${fromIndex}, limit=${limit ?? '∞'}, forceUpdate=${forceUpdate}, resume=${resume}`);
+
+    // Load ID list
+    console.log(`[sync:manga] Downloading MAL ID list from: ${IDS_URL}`);
+    const idList = await fetchIdList(IDS_URL);
+
+    // Determine start index considering resume option
+    const startIndex = await resolveStartIndex("manga", fromIndex, resume);
+
+    const slice = typeof limit === "number" ? idList.slice(startIndex, startIndex + limit) : idList.slice(startIndex);
+    console.log(`[sync:manga] Total IDs available: ${idList.length}; Starting at index ${startIndex}; To process: ${slice.length}`);
+
+    const db = getDatabase();
+    const repo = new MangaRepository(db);
+    const service = new MangaService(repo);
+
+    let processed = 0;
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (let i = 0; i < slice.length; i++) {
+        const malId = slice[i];
+        const currentIndex = startIndex + i;
+        try {
+            let exists = await service.findById(malId);
+            if (exists && !forceUpdate) {
+                skipped++;
+                processed++;
+                console.log(`- [skip] [#${currentIndex}] ${malId} already exists`);
+            } else {
+                const json = await jikanFetch(`/manga/${malId}`);
+                const manga = (json?.data ?? null) as Manga | null;
+                if (!manga) throw new Error("No data field in response");
+
+                if (exists) {
+                    await service.update(malId, manga as unknown as Partial<Manga>);
+                    updated++;
+                    console.log(`- [update] [#${currentIndex}] ${malId} ${manga.title ?? ''}`);
+                } else {
+                    await service.create(manga);
+                    created++;
+                    console.log(`- [create] [#${currentIndex}] ${malId} ${manga.title ?? ''}`);
+                }
+                processed++;
+            }
+        } catch (e) {
+            failed++;
+            console.error(`- [error] [#${currentIndex}] ${malId}:`, e);
+        } finally {
+            // persist last processed index
+            try {
+                await writeProgress("manga", currentIndex);
+            } catch {
+            }
+        }
+    }
+
+    console.log(`[sync:manga] Done. Processed=${processed} created=${created} updated=${updated} skipped=${skipped} failed=${failed}`);
+}
\ No newline at end of file
@@ -1,15 +1,34 @@
 import { Schema } from "../database/schema";
 import { getDatabase } from "../database";
 import { runSyncAnime } from "./commands/sync-anime";
+import { runSyncManga } from "./commands/sync-manga";
+import { runSyncCharacters } from "./commands/sync-characters";
+import { runSyncClubs } from "./commands/sync-clubs";
+import { runMigrate } from "./commands/migrate";
+import { runCacheClear } from "./commands/cache-clear";
 
 export type CommandHandler = (argv: string[]) => Promise<number | void>;
 
 const commands: Record<string, CommandHandler> = {
-  // Usage: bun run src/cli sync anime [--limit 100] [--from-index 0] [--force-update]
+  // Usage: bun run src/cli sync anime [--limit 100] [--from-index 0] [--force-update] [--stale [--older-than 24]]
   "sync:anime": async (argv) => runSyncAnime(argv),
-  // Future-ready placeholders: sync:manga, sync:characters, etc.
+  // Usage: bun run src/cli sync:manga [--limit 100] [--from-index 0] [--force-update]
+  "sync:manga": async (argv) => runSyncManga(argv),
+  // Usage: bun run src/cli sync:characters [--limit 100] [--from-index 0] [--force-update] [--details]
+  "sync:characters": async (argv) => runSyncCharacters(argv),
+  // Usage: bun run src/cli sync:clubs [--limit 10] [--from-index 0] [--force-update]
+  "sync:clubs": async (argv) => runSyncClubs(argv),
+  // Usage: bun run src/cli migrate [up [--to 5]|down [--steps 1]|status]
+  "migrate": async (argv) => runMigrate(argv),
+  // Usage: bun run src/cli cache:clear [--pattern anime_*]
+  "cache:clear": async (argv) => runCacheClear(argv),
 };
 
+/**
+ * Commands that do not need the schema migrated before they run.
+ */
+const SCHEMALESS_COMMANDS = ["migrate", "cache:clear"];
+
 /**
  * Prints CLI usage information and available commands to stdout.
  *
@@ -23,12 +42,26 @@ function printHelp() {
   console.log("  bun run src/cli <command> [...options]\n");
   console.log("Commands:");
   console.log("  sync:anime              Sync anime data from Jikan v4 into local DB");
+  console.log("  sync:manga              Sync manga data from Jikan v4 into local DB");
+  console.log("  sync:characters         Sync characters of locally stored anime from Jikan v4");
+  console.log("  sync:clubs              Sync clubs from the Jikan v4 club listing into local DB");
+  console.log("  migrate <action>        Manage schema migrations: up [--to <version>], down [--steps <n>], status");
+  console.log("  cache:clear             Clear the cache store; --pattern <glob> limits it to matching keys (e.g. anime_*)");
   console.log("");
-  console.log("Options (sync:anime):");
+  console.log("Options (sync:anime, sync:manga, sync:characters, sync:clubs):");
   console.log("  --limit <n>             Limit number of IDs to process");
   console.log("  --from-index <n>        Start from ID index in the list");
   console.log("  --resume                Resume from last processed index (default: false)");
   console.log("  --force-update          Update even if record already exists");
+  console.log("");
+  console.log("Options (sync:anime):");
+  console.log("  --stale                 Refresh stored anime past their freshness window (airing/upcoming first)");
+  console.log("  --older-than <hours>    With --stale, use one maximum age instead of the freshness policy");
+  console.log("");
+  console.log("Options (sync:characters):");
+  console.log("  --details               Also fetch full details for characters missing them");
+  console.log("");
+  console.log("For sync:clubs, --limit and --from-index count listing pages (25 clubs each) instead of IDs.");
 }
 
 /**
@@ -45,9 +78,11 @@ export async function runV4Cli(args: string[]): Promise<number> {
     return 0;
   }
 
-  // Ensure DB initialized for any CLI command that may use DB
-  const schema = new Schema();
-  schema.bootstrap();
+  // Ensure DB initialized for any CLI command that may use DB; `migrate` manages the schema itself
+  if (!SCHEMALESS_COMMANDS.includes(cmd)) {
+    const schema = new Schema();
+    schema.bootstrap();
+  }
   getDatabase();
 
   const handler = commands[cmd];
@@ -0,0 +1,164 @@
+import {promises as fs} from "fs";
+import * as path from "node:path";
+
+// simple progress storage on disk (project root)
+const PROGRESS_FILE = path.join(process.cwd(), ".jikan-lite-progress.json");
+
+/**
+ * Shape of the progress file; one entry per sync command.
+ */
+export type ProgressShape = {
+    anime?: {
+        lastIndex: number; // last processed overall index in the ID list
+        updatedAt: string;
+    };
+    manga?: {
+        lastIndex: number; // last processed overall index in the ID list
+        updatedAt: string;
+    };
+    characters?: {
+        lastIndex: number; // last processed index in the local anime ID list
+        updatedAt: string;
+    };
+    clubs?: {
+        lastIndex: number; // last processed page index (page number - 1) of the club listing
+        updatedAt: string;
+    };
+};
+
+/**
+ * Flags shared by the sync commands.
+ */
+export type SyncFlags = {
+    limit?: number;
+    fromIndex?: number;
+    forceUpdate?: boolean;
+    resume?: boolean;
+    details?: boolean;
+    stale?: boolean;
+    olderThan?: number;
+};
+
+/**
+ * Reads the sync progress from disk.
+ * Returns the last processed index and update timestamp per kind if available.
+ * @returns {Promise<ProgressShape>} The progress data or an empty object if not found.
+ */
+export async function readProgress(): Promise<ProgressShape> {
+    try {
+        const data = await fs.readFile(PROGRESS_FILE, "utf8");
+        return JSON.parse(data) as ProgressShape;
+    } catch {
+        return {} as ProgressShape;
+    }
+}
+
+/**
+ * Writes the current sync progress to disk.
+ * Updates the last processed index and timestamp for the given kind.
+ * @param {keyof ProgressShape} kind - The progress type to update.
+ * @param {number} lastIndex - The last processed index.
+ * @returns {Promise<void>}
+ */
+export async function writeProgress(kind: keyof ProgressShape, lastIndex: number) {
+    const prev = await readProgress();
+    const now = new Date().toISOString();
+    const next: ProgressShape = {
+        ...prev,
+        [kind]: {lastIndex, updatedAt: now} as any,
+    };
+    await fs.writeFile(PROGRESS_FILE, JSON.stringify(next, null, 2), "utf8");
+}
+
+/**
+ * Parses CLI flags from the provided argument array.
+ * Supports --limit, --from-index, --force-update, --resume, --details, --stale and --older-than (hours).
+ * @param {string[]} argv - The CLI arguments.
+ * @returns {SyncFlags} Parsed flags.
+ */
+export function parseFlags(argv: string[]): SyncFlags {
+    const flags: SyncFlags = {};
+    for (let i = 0; i < argv.length; i++) {
+        const a = argv[i];
+        if (a === "--limit") flags.limit = Number(argv[++i]);
+        else if (a === "--from-index") flags.fromIndex = Number(argv[++i]);
+        else if (a === "--force-update") flags.forceUpdate = true;
+        else if (a === "--resume") flags.resume = true;
+        else if (a === "--details") flags.details = true;
+        else if (a === "--stale") flags.stale = true;
+        else if (a === "--older-than") flags.olderThan = Number(argv[++i]);
+    }
+    return flags;
+}
+
+/**
+ * Delays execution for a specified number of milliseconds.
+ * @param {number} ms - Milliseconds to sleep.
+ * @returns {Promise<void>}
+ */
+export async function sleep(ms: number) {
+    return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * Fetches JSON data from a URL with retry and exponential backoff.
+ * Used for downloads outside Jikan (e.g. the MAL ID lists); Jikan requests go through the rate-limited `jikanFetch`.
+ * Throws the last error if all retries fail.
+ * @param {string} url - The URL to fetch.
+ * @param {number} [retries=3] - Number of retry attempts.
+ * @param {number} [backoffMs=500] - Initial backoff in milliseconds.
+ * @returns {Promise<any>} The fetched JSON data.
+ * @throws {Error} If all retries fail.
+ */
+export async function fetchWithRetry(url: string, retries = 3, backoffMs = 500): Promise<any> {
+    let lastErr: unknown;
+    for (let i = 0; i <= retries; i++) {
+        try {
+            const res = await fetch(url, {headers: {"User-Agent": "jikan-lite-cli"}});
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            return await res.json();
+        } catch (e) {
+            lastErr = e;
+            if (i === retries) break;
+            await sleep(backoffMs * (i + 1));
+        }
+    }
+    throw lastErr;
+}
+
+/**
+ * Downloads a mal-id-cache list and flattens it into a single array of IDs.
+ * Accepts either a plain array or the `{sfw, nsfw}` shape used by the cache files.
+ * @param {string} url - The ID list URL.
+ * @returns {Promise<number[]>} The MAL IDs in list order.
+ */
+export async function fetchIdList(url: string): Promise<number[]> {
+    const idsResp: any = await fetchWithRetry(url);
+    type IdsResponse = { sfw?: number[]; nsfw?: number[] } | number[];
+    const normalized: number[] = Array.isArray(idsResp)
+        ? (idsResp as number[])
+        : [
+            ...(((idsResp as IdsResponse as any)?.sfw ?? []) as number[]),
+            ...(((idsResp as IdsResponse as any)?.nsfw ?? []) as number[]),
+        ];
+    return normalized.filter((v) => typeof v === "number");
+}
+
+/**
+ * Resolves the index to start syncing from, honouring --resume against the saved progress.
+ * @param {keyof ProgressShape} kind - The progress type to consult.
+ * @param {number} fromIndex - The requested start index.
+ * @param {boolean} resume - Whether to resume after the last processed index.
+ * @returns {Promise<number>} The effective start index.
+ */
+export async function resolveStartIndex(kind: keyof ProgressShape, fromIndex: number, resume: boolean): Promise<number> {
+    let startIndex = fromIndex;
+    if (resume) {
+        const prog = await readProgress();
+        const saved = prog?.[kind]?.lastIndex;
+        if (typeof saved === "number" && saved >= -1) {
+            startIndex = Math.max(startIndex, saved + 1);
+        }
+    }
+    return startIndex;
+}
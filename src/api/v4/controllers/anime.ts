@@ -1,10 +1,16 @@
 import {Hono} from 'hono'
-import {Anime} from "../types";
+import {Anime, AnimeCharacter} from "../types";
 import '../database/helpers/parser/anime';
 import {AnimeRepository} from "../database/repository/anime-repository";
 import {getDatabase} from "../database";
 import AnimeService from "../services/anime-service";
 import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickFields, PickPageFields} from "../utils/pick-fields";
+import {jikanFetch} from "../upstream";
+import {FetchMissing, SingleFlight} from "../utils/single-flight";
+import {CharacterRepository} from "../database/repository/character-repository";
+import CharacterService from "../services/character-service";
 
 /**
  * Router for Anime endpoints (v4).
@@ -12,12 +18,38 @@ import {ObjectToQuery} from "../database/helpers/object-to-query";
 const app = new Hono()
 
 /**
- * Health/hello endpoint for anime route.
+ * Refreshes a stored anime from Jikan API in the background, without delaying the response.
  *
- * Returns a simple text response to verify the route is reachable.
+ * Shares the single-flight key of upstream misses, so concurrent stale hits trigger one fetch. Failures and 404s are
+ * logged and recorded as a sync attempt, so the row is not refetched on every read until its freshness window elapses.
+ *
+ * @param {AnimeService} animeService - The service used to write the refreshed anime.
+ * @param {number} malId - The MAL ID to refresh.
+ */
+function revalidate(animeService: AnimeService, malId: number) {
+    SingleFlight(`anime_${malId}`, async () => {
+        let response = await jikanFetch(`/anime/${malId}`)
+        if (!response || !response.data) {
+            console.warn(`Background refresh of anime ${malId} found nothing upstream`)
+            return animeService.recordSyncAttempt(malId)
+        }
+
+        return animeService.update(malId, response.data as Anime)
+    }).catch((e) => {
+        console.error(`Background refresh of anime ${malId} failed:`, e)
+        return animeService.recordSyncAttempt(malId)
+    }).catch((e) => console.error(`Recording the refresh attempt of anime ${malId} failed:`, e))
+}
+
+/**
+ * Lists anime from the local DB using query params for filtering, search, ordering and paging.
+ *
+ * Converts the request query into QueryOptions and delegates to the service, which consults the cache first.
+ * `fields` (comma-separated dot-paths, e.g. `mal_id,title,images.jpg.image_url`) or `view=compact` limit the selected
+ * columns and shape each entry to just those fields.
  *
  * @route GET /v4/anime/
- * @returns {string} Plain text hello response.
+ * @returns {Promise<Response>} JSON response with the paginated anime list.
  */
 app.get('/', async (c) => {
     try {
@@ -26,9 +58,9 @@ app.get('/', async (c) => {
         const animeService = new AnimeService(animeRepository);
 
         let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
-        let lists = await animeService.findByQuery(queryOptions);
+        let result = await animeService.paginate(queryOptions);
 
-        return c.json({data: lists});
+        return c.json(PickPageFields(result, toFieldPaths("anime", queryOptions)));
     } catch (e) {
         c.status(500)
         return c.json({error: e})
@@ -37,43 +69,108 @@ app.get('/', async (c) => {
 
 /**
  * Retrieves anime by MAL ID. First checks local DB/cache, otherwise fetches from Jikan API.
- * Sets X-Data-Source header to indicate the data source (cache/api).
+ * Sets X-Data-Source header to indicate the data source (cache/db/db-stale/api).
  *
  * Parses the malId, queries the service for cached/DB data; if absent, fetches from upstream API, persists and caches it, sets a header indicating the source, and returns JSON.
+ * Stale DB rows (per the freshness policy) are served immediately and refreshed in the background.
+ * `fields` or `view=compact` shape the response to just the requested fields.
+ * Concurrent requests missing the same anime are coalesced into a single upstream fetch and insert; a miss that races
+ * an insert serves the stored row (source `db`) instead of fetching again.
  *
  * @route GET /v4/anime/:malId
  * @param {Hono.Context} c - The request context with route param malId.
- * @returns {Promise<Response>} JSON response with data or error message.
+ * @returns {Promise<Response>} JSON response with data or error message; 400 if malId is not a positive integer.
  */
 app.get('/:malId', async (c) => {
-    let malId = c.req.param('malId') as unknown as number
+    let malId = Number(c.req.param('malId'))
+    if (!Number.isInteger(malId) || malId <= 0) {
+        return c.json({message: 'Invalid MAL ID'}, 400)
+    }
+    let fields = toFieldPaths("anime", ObjectToQuery(c.req.query()))
+    let shape = (anime: Anime) => fields ? PickFields(anime, fields) : anime
 
     try {
         let db = getDatabase();
         const animeRepository = new AnimeRepository(db)
         const animeService = new AnimeService(animeRepository);
 
-        let anime = await animeService.findById(malId);
+        let found = await animeService.lookup(malId);
+
+        if (found) {
+            // Add header to indicate whether data is from cache or the DB (and whether it is being refreshed)
+            c.header('X-Data-Source', found.source);
+            if (found.source === 'db-stale') revalidate(animeService, malId);
+
+            return c.json({data: shape(found.data)})
+        }
+
+        // Concurrent misses for the same anime share one upstream fetch and one insert
+        let anime = await FetchMissing(`anime_${malId}`, () => animeService.findById(malId), async () => {
+            let response = await jikanFetch(`/anime/${malId}`)
+            if (!response || !response.data) return null
+
+            return animeService.create(response.data as Anime)
+        })
 
         if (anime) {
-            // Add header to indicate data is from cache
+            // Add header to indicate data is from API (or stored by a concurrent request)
+            c.header('X-Data-Source', anime.source);
+
+            return c.json({data: shape(anime.data)})
+        }
+
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+
+    return c.json({message: 'Anime not found'}, 404)
+})
+
+/**
+ * Retrieves the characters of an anime with their roles and voice actors.
+ * First checks local DB/cache, otherwise fetches the list from Jikan API and stores it.
+ * Sets X-Data-Source header to indicate the data source (cache/api).
+ *
+ * @route GET /v4/anime/:malId/characters
+ * @param {Hono.Context} c - The request context with route param malId.
+ * @returns {Promise<Response>} JSON response with the character list or error message; 400 if malId is not a positive integer.
+ */
+app.get('/:malId/characters', async (c) => {
+    let malId = Number(c.req.param('malId'))
+    if (!Number.isInteger(malId) || malId <= 0) {
+        return c.json({message: 'Invalid MAL ID'}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const characterService = new CharacterService(new CharacterRepository(db));
+
+        let characters = await characterService.findByAnimeId(malId);
+
+        if (characters) {
+            // Known lists (including empty ones) are served locally; add header to indicate data is from cache
             c.header('X-Data-Source', 'cache');
 
-            return c.json({data: anime})
+            return c.json({data: characters})
         }
 
-        let response = await fetch(`https://api.jikan.moe/v4/anime/${malId}`).then(res => res.json())
+        // Concurrent misses for the same anime share one upstream fetch and one write
+        let fetched = await SingleFlight(`anime_characters_${malId}`, async () => {
+            let response = await jikanFetch(`/anime/${malId}/characters`)
+            if (!response || !Array.isArray(response.data)) return null
 
-        if (response && response.data) {
-            anime = response.data as Anime
-            await animeService.create(anime)
+            return characterService.saveAnimeCharacters(malId, response.data as AnimeCharacter[])
+        })
+
+        if (fetched) {
+            characters = fetched
 
             // Add header to indicate data is from API
             c.header('X-Data-Source', 'api');
 
-            return c.json({data: anime})
+            return c.json({data: characters})
         }
-
     } catch (e) {
         c.status(500)
         return c.json({error: e})
@@ -0,0 +1,103 @@
+import {Hono} from 'hono'
+import {Character} from "../types";
+import '../database/helpers/parser/character';
+import {CharacterRepository} from "../database/repository/character-repository";
+import {getDatabase} from "../database";
+import CharacterService from "../services/character-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+import {jikanFetch} from "../upstream";
+import {FetchMissing} from "../utils/single-flight";
+
+/**
+ * Router for Character endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Lists characters from the local DB using query params for filtering, ordering and paging.
+ *
+ * @route GET /v4/characters/
+ * @returns {Promise<Response>} JSON response with the paginated character list.
+ */
+app.get('/', async (c) => {
+    try {
+        let db = getDatabase();
+        const characterService = new CharacterService(new CharacterRepository(db));
+
+        let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
+        let result = await characterService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("characters", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+/**
+ * Retrieves a character by MAL ID. First checks local DB/cache, otherwise fetches from Jikan API.
+ * Characters only known from an anime's character list (without full details) are fetched and completed.
+ * Concurrent requests missing the same character are coalesced into a single upstream fetch and write; a miss that
+ * races a write serves the stored record (source `db`) instead of fetching again.
+ * Sets X-Data-Source header to indicate the data source (cache/db/api).
+ *
+ * @route GET /v4/characters/:id
+ * @param {Hono.Context} c - The request context with route param id.
+ * @returns {Promise<Response>} JSON response with data or error message; 400 if id is not a positive integer.
+ */
+app.get('/:id', async (c) => {
+    let id = Number(c.req.param('id'))
+    if (!Number.isInteger(id) || id <= 0) {
+        return c.json({message: 'Invalid MAL ID'}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const characterService = new CharacterService(new CharacterRepository(db));
+
+        let character = await characterService.findById(id);
+
+        if (character && await characterService.hasDetails(id)) {
+            // Add header to indicate data is from cache
+            c.header('X-Data-Source', 'cache');
+
+            return c.json({data: character})
+        }
+
+        // Concurrent misses for the same character share one upstream fetch and one write
+        let detailed = async () => await characterService.hasDetails(id) ? characterService.findById(id) : null
+        let fetched = await FetchMissing(`character_${id}`, detailed, async () => {
+            let response = await jikanFetch(`/characters/${id}`)
+            if (!response || !response.data) return null
+
+            let fetched = response.data as Character
+            if (character) {
+                await characterService.update(id, fetched)
+            } else {
+                await characterService.create(fetched)
+            }
+            return fetched
+        })
+
+        if (fetched) {
+            // Add header to indicate data is from API (or stored by a concurrent request)
+            c.header('X-Data-Source', fetched.source);
+
+            return c.json({data: fetched.data})
+        }
+
+        if (character) {
+            c.header('X-Data-Source', 'cache');
+            return c.json({data: character})
+        }
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+
+    return c.json({message: 'Character not found'}, 404)
+})
+
+export default app
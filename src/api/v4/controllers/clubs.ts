@@ -0,0 +1,97 @@
+import {Hono} from 'hono'
+import {Club} from "../types";
+import '../database/helpers/parser/club';
+import {ClubRepository} from "../database/repository/club-repository";
+import {getDatabase} from "../database";
+import ClubService from "../services/club-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+import {jikanFetch} from "../upstream";
+import {FetchMissing} from "../utils/single-flight";
+
+/**
+ * Router for Club endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Lists clubs from the local DB using query params for filtering, search, ordering and paging.
+ *
+ * Supports Jikan's club search parameters (`q` by name, `category`, `type` for access, `letter`) and delegates to the service, which consults the cache first.
+ *
+ * @route GET /v4/clubs/
+ * @returns {Promise<Response>} JSON response with the matching club list.
+ */
+app.get('/', async (c) => {
+    try {
+        let db = getDatabase();
+        const clubRepository = new ClubRepository(db)
+        const clubService = new ClubService(clubRepository);
+
+        let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
+        let result = await clubService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("clubs", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+/**
+ * Retrieves a club by MAL ID. First checks local DB/cache, otherwise fetches from Jikan API.
+ * Sets X-Data-Source header to indicate the data source (cache/db/api).
+ *
+ * Parses the id, queries the service for cached/DB data; if absent, fetches from upstream API, persists and caches it, sets a header indicating the source, and returns JSON.
+ * Concurrent requests missing the same club are coalesced into a single upstream fetch and insert; a miss that races
+ * an insert serves the stored row (source `db`) instead of fetching again.
+ *
+ * @route GET /v4/clubs/:id
+ * @param {Hono.Context} c - The request context with route param id.
+ * @returns {Promise<Response>} JSON response with data or error message; 400 if id is not a positive integer.
+ */
+app.get('/:id', async (c) => {
+    let id = Number(c.req.param('id'))
+    if (!Number.isInteger(id) || id <= 0) {
+        return c.json({message: 'Invalid MAL ID'}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const clubRepository = new ClubRepository(db)
+        const clubService = new ClubService(clubRepository);
+
+        let club = await clubService.findById(id);
+
+        if (club) {
+            // Add header to indicate data is from cache
+            c.header('X-Data-Source', 'cache');
+
+            return c.json({data: club})
+        }
+
+        // Concurrent misses for the same club share one upstream fetch and one insert
+        let fetched = await FetchMissing(`club_${id}`, () => clubService.findById(id), async () => {
+            let response = await jikanFetch(`/clubs/${id}`)
+            if (!response || !response.data) return null
+
+            return clubService.create(response.data as Club)
+        })
+
+        if (fetched) {
+            // Add header to indicate data is from API (or stored by a concurrent request)
+            c.header('X-Data-Source', fetched.source);
+
+            return c.json({data: fetched.data})
+        }
+
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+
+    return c.json({message: 'Club not found'}, 404)
+})
+
+export default app
@@ -0,0 +1,37 @@
+import {Hono} from 'hono'
+import {getDatabase} from "../database";
+import {GENRE_FILTERS, GenreFilter, GenreRepository} from "../database/repository/genre-repository";
+import GenreService from "../services/genre-service";
+
+/**
+ * Router for Genre endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Lists anime genres derived from the local DB, each with the number of anime tagged with it.
+ * Accepts Jikan's `filter` parameter (genres, explicit_genres, themes, demographics).
+ *
+ * @route GET /v4/genres/anime
+ * @returns {Promise<Response>} JSON response with the genre list, or 400 for an unknown filter.
+ */
+app.get('/anime', async (c) => {
+    let filter = c.req.query('filter')
+    if (filter && !(GENRE_FILTERS as readonly string[]).includes(filter)) {
+        return c.json({message: `Invalid filter, expected one of: ${GENRE_FILTERS.join(', ')}`}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const genreService = new GenreService(new GenreRepository(db));
+
+        let genres = await genreService.findAnimeGenres(filter as GenreFilter | undefined);
+
+        return c.json({data: genres});
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+export default app
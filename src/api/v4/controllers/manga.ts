@@ -1,4 +1,14 @@
-import { Hono } from 'hono'
+import {Hono} from 'hono'
+import {Manga} from "../types";
+import '../database/helpers/parser/manga';
+import {MangaRepository} from "../database/repository/manga-repository";
+import {getDatabase} from "../database";
+import MangaService from "../services/manga-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+import {jikanFetch} from "../upstream";
+import {FetchMissing} from "../utils/single-flight";
 
 /**
  * Router for Manga endpoints (v4).
@@ -6,28 +16,82 @@ import { Hono } from 'hono'
 const app = new Hono()
 
 /**
- * Health/hello endpoint for manga route.
+ * Lists manga from the local DB using query params for filtering, search, ordering and paging.
  *
- * Returns a simple text message to confirm the manga route is active.
+ * Converts the request query into QueryOptions and delegates to the service, which consults the cache first.
  *
  * @route GET /v4/manga/
- * @returns {string} Plain text hello response.
+ * @returns {Promise<Response>} JSON response with the matching manga list.
  */
-app.get('/', (c) => c.text('Hello manga!'))
+app.get('/', async (c) => {
+    try {
+        let db = getDatabase();
+        const mangaRepository = new MangaRepository(db)
+        const mangaService = new MangaService(mangaRepository);
+
+        let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
+        let result = await mangaService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("manga", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
 
 /**
- * Retrieves manga by MAL ID from the Jikan API and returns raw response.
+ * Retrieves manga by MAL ID. First checks local DB/cache, otherwise fetches from Jikan API.
+ * Sets X-Data-Source header to indicate the data source (cache/db/api).
  *
- * Extracts malId from the route, calls the upstream Jikan API, and returns the JSON body directly.
+ * Parses the malId, queries the service for cached/DB data; if absent, fetches from upstream API, persists and caches it, sets a header indicating the source, and returns JSON.
+ * Concurrent requests missing the same manga are coalesced into a single upstream fetch and insert; a miss that races
+ * an insert serves the stored row (source `db`) instead of fetching again.
  *
  * @route GET /v4/manga/:malId
  * @param {Hono.Context} c - The request context with route param malId.
- * @returns {Promise<Response>} JSON response from upstream API.
+ * @returns {Promise<Response>} JSON response with data or error message; 400 if malId is not a positive integer.
  */
 app.get('/:malId', async (c) => {
-    let malId = c.req.param('malId')
-    let response = await fetch(`https://api.jikan.moe/v4/manga/${malId}`).then(res => res.json())
-    return c.json(response)
+    let malId = Number(c.req.param('malId'))
+    if (!Number.isInteger(malId) || malId <= 0) {
+        return c.json({message: 'Invalid MAL ID'}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const mangaRepository = new MangaRepository(db)
+        const mangaService = new MangaService(mangaRepository);
+
+        let manga = await mangaService.findById(malId);
+
+        if (manga) {
+            // Add header to indicate data is from cache
+            c.header('X-Data-Source', 'cache');
+
+            return c.json({data: manga})
+        }
+
+        // Concurrent misses for the same manga share one upstream fetch and one insert
+        let fetched = await FetchMissing(`manga_${malId}`, () => mangaService.findById(malId), async () => {
+            let response = await jikanFetch(`/manga/${malId}`)
+            if (!response || !response.data) return null
+
+            return mangaService.create(response.data as Manga)
+        })
+
+        if (fetched) {
+            // Add header to indicate data is from API (or stored by a concurrent request)
+            c.header('X-Data-Source', fetched.source);
+
+            return c.json({data: fetched.data})
+        }
+
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+
+    return c.json({message: 'Manga not found'}, 404)
 })
 
-export default app
\ No newline at end of file
+export default app
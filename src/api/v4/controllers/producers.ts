@@ -0,0 +1,90 @@
+import {Hono} from 'hono'
+import {getDatabase} from "../database";
+import {ProducerRepository} from "../database/repository/producer-repository";
+import {AnimeRepository} from "../database/repository/anime-repository";
+import ProducerService from "../services/producer-service";
+import AnimeService from "../services/anime-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+
+/**
+ * Router for Producer endpoints (v4). Producers include studios and licensors.
+ */
+const app = new Hono()
+
+/**
+ * Lists producers derived from the local DB, each with the number of anime it is credited on.
+ * Supports `page`, `limit`, `q`, `letter`, `order_by` (mal_id, name, count) and `sort`.
+ *
+ * @route GET /v4/producers/
+ * @returns {Promise<Response>} JSON response with the paginated producer list.
+ */
+app.get('/', async (c) => {
+    try {
+        let db = getDatabase();
+        const producerService = new ProducerService(new ProducerRepository(db));
+
+        let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
+        let result = await producerService.paginate(queryOptions);
+
+        return c.json(result);
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+/**
+ * Retrieves a producer by MAL ID from the local DB.
+ *
+ * @route GET /v4/producers/:id
+ * @param {Hono.Context} c - The request context with route param id.
+ * @returns {Promise<Response>} JSON response with the producer, or 404 if it is not referenced by any synced anime.
+ */
+app.get('/:id', async (c) => {
+    let id = Number(c.req.param('id'))
+
+    try {
+        let db = getDatabase();
+        const producerService = new ProducerService(new ProducerRepository(db));
+
+        let producer = await producerService.findById(id);
+        if (producer) {
+            return c.json({data: producer})
+        }
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+
+    return c.json({message: 'Producer not found'}, 404)
+})
+
+/**
+ * Lists anime a producer is credited on (as producer, studio or licensor).
+ * Accepts the same query parameters as `/v4/anime`.
+ *
+ * @route GET /v4/producers/:id/anime
+ * @param {Hono.Context} c - The request context with route param id.
+ * @returns {Promise<Response>} JSON response with the paginated anime list.
+ */
+app.get('/:id/anime', async (c) => {
+    let id = Number(c.req.param('id'))
+
+    try {
+        let db = getDatabase();
+        const animeService = new AnimeService(new AnimeRepository(db));
+
+        let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
+        queryOptions.producers = {ids: [id], match: 'all'};
+        let result = await animeService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("anime", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+export default app
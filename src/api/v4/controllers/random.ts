@@ -0,0 +1,44 @@
+import {Hono} from 'hono'
+import '../database/helpers/parser/anime';
+import {AnimeRepository} from "../database/repository/anime-repository";
+import {getDatabase} from "../database";
+import AnimeService from "../services/anime-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickFields} from "../utils/pick-fields";
+
+/**
+ * Router for Random endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Returns a uniformly random anime from the local DB.
+ *
+ * Accepts the same filters as `/v4/anime` (e.g. `type`, `rating`, `genres`, `min_score`) to restrict the draw;
+ * `sfw` excludes `Rx - Hentai` ratings and entries with explicit genres.
+ *
+ * @route GET /v4/random/anime
+ * @returns {Promise<Response>} JSON response with a random anime, or 404 when nothing matches.
+ */
+app.get('/anime', async (c) => {
+    try {
+        let db = getDatabase();
+        const animeService = new AnimeService(new AnimeRepository(db));
+
+        let queryOptions = ObjectToQuery(c.req.query()); // Convert query params to QueryOptions
+        let anime = await animeService.findRandom(queryOptions);
+
+        if (anime) {
+            let fields = toFieldPaths("anime", queryOptions);
+            return c.json({data: fields ? PickFields(anime, fields) : anime})
+        }
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+
+    return c.json({message: 'No anime matches the given filters'}, 404)
+})
+
+export default app
@@ -0,0 +1,92 @@
+import {Hono} from 'hono'
+import '../database/helpers/parser/anime';
+import {AnimeRepository} from "../database/repository/anime-repository";
+import {getDatabase} from "../database";
+import AnimeService from "../services/anime-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+
+/**
+ * Router for Schedule endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Jikan's day filters mapped to the stored `broadcast.day` value.
+ */
+const BROADCAST_DAYS: { [filter: string]: string } = {
+    monday: 'Mondays',
+    tuesday: 'Tuesdays',
+    wednesday: 'Wednesdays',
+    thursday: 'Thursdays',
+    friday: 'Fridays',
+    saturday: 'Saturdays',
+    sunday: 'Sundays',
+};
+
+/**
+ * Values accepted by Jikan's `filter` parameter.
+ */
+const SCHEDULE_FILTERS = [...Object.keys(BROADCAST_DAYS), 'unknown', 'other'];
+
+/**
+ * Kids demographic genre, used by Jikan's `kids` parameter.
+ */
+const KIDS_GENRE_ID = 15;
+
+/**
+ * Lists currently airing anime from the local DB by broadcast day, paginated like Jikan.
+ *
+ * `filter` selects a weekday, `unknown` (no broadcast day) or `other` (any other broadcast day);
+ * `kids=true` keeps only Kids entries and `kids=false` removes them, on top of any `genres`/`genres_exclude` filter
+ * (`kids=true` cannot be combined with any-of genres such as `1|4`). `unapproved` is accepted but ignored.
+ * Without an explicit `order_by`, anime are ordered by broadcast time.
+ *
+ * @route GET /v4/schedules
+ * @returns {Promise<Response>} JSON response with the paginated anime list, or 400 for an unknown filter or unsupported genre combination.
+ */
+app.get('/', async (c) => {
+    let {filter, kids, unapproved, ...params} = c.req.query()
+    let day = filter?.toLowerCase()
+    if (day && !SCHEDULE_FILTERS.includes(day)) {
+        return c.json({message: `Invalid filter, expected one of: ${SCHEDULE_FILTERS.join(', ')}`}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const animeService = new AnimeService(new AnimeRepository(db));
+
+        let queryOptions = ObjectToQuery(params); // Convert query params to QueryOptions
+        queryOptions.filters.airing = 1;
+        if (day === 'unknown') {
+            queryOptions.conditions!!.push({column: 'broadcast.day', operator: 'null', value: true});
+        } else if (day === 'other') {
+            queryOptions.conditions!!.push({column: 'broadcast.day', operator: 'nin', value: Object.values(BROADCAST_DAYS)});
+        } else if (day) {
+            queryOptions.filters['broadcast.day'] = BROADCAST_DAYS[day];
+        }
+
+        if (kids !== undefined && ['true', '1'].includes(kids.toLowerCase())) {
+            let genres = queryOptions.genres;
+            // A required genre cannot be added to an any-of list without changing its meaning
+            if (genres?.match === 'any' && genres.ids.length > 1) {
+                return c.json({message: 'kids=true cannot be combined with genres matched by any (|)'}, 400)
+            }
+            queryOptions.genres = {ids: [...(genres?.ids ?? []), KIDS_GENRE_ID], match: 'all'};
+        } else if (kids !== undefined) {
+            queryOptions.genresExclude = {ids: [...(queryOptions.genresExclude?.ids ?? []), KIDS_GENRE_ID], match: 'all'};
+        }
+
+        if (!queryOptions.orderBy) queryOptions.orderBy = 'broadcast.time';
+
+        let result = await animeService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("anime", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+export default app
@@ -0,0 +1,128 @@
+import {Context, Hono} from 'hono'
+import '../database/helpers/parser/anime';
+import {AnimeRepository} from "../database/repository/anime-repository";
+import {getDatabase} from "../database";
+import AnimeService from "../services/anime-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+import {QueryOptions} from "../database/types/repository";
+import {Season} from "../types/season";
+
+/**
+ * Router for Season endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Seasons in calendar order; each covers three months starting in January.
+ */
+const SEASONS: Season[] = ['winter', 'spring', 'summer', 'fall'];
+
+/**
+ * Values accepted by Jikan's `filter` parameter (the anime type).
+ */
+const SEASON_FILTERS = ['tv', 'movie', 'ova', 'special', 'ona', 'music'];
+
+/**
+ * Lists anime matching a season constraint from the local DB, paginated like Jikan.
+ *
+ * Accepts the usual list parameters plus Jikan's `filter` (anime type); `continuing` and `unapproved` are accepted but
+ * ignored. Without an explicit `order_by`, anime are ordered by members, most popular first.
+ *
+ * @param {Context} c - The request context.
+ * @param {(options: QueryOptions) => void} constrain - Adds the season-specific filters to the query options.
+ * @returns {Promise<Response>} JSON response with the paginated anime list, or 400 for an unknown filter.
+ */
+async function listSeason(c: Context, constrain: (options: QueryOptions) => void) {
+    let {filter, continuing, unapproved, ...params} = c.req.query()
+    if (filter && !SEASON_FILTERS.includes(filter.toLowerCase())) {
+        return c.json({message: `Invalid filter, expected one of: ${SEASON_FILTERS.join(', ')}`}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const animeService = new AnimeService(new AnimeRepository(db));
+
+        let queryOptions = ObjectToQuery(params); // Convert query params to QueryOptions
+        if (filter) queryOptions.filters.type = filter;
+        if (!queryOptions.orderBy) {
+            queryOptions.orderBy = 'members';
+            queryOptions.orderDirection = 'DESC';
+        }
+        constrain(queryOptions);
+
+        let result = await animeService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("anime", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+}
+
+/**
+ * Lists the seasons that have stored anime, newest year first.
+ *
+ * @route GET /v4/seasons
+ * @returns {Promise<Response>} JSON response with `{year, seasons}` entries.
+ */
+app.get('/', async (c) => {
+    try {
+        let db = getDatabase();
+        const animeService = new AnimeService(new AnimeRepository(db));
+
+        return c.json({data: await animeService.findSeasons()});
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+/**
+ * Lists anime of the current season (derived from today's date in UTC).
+ *
+ * @route GET /v4/seasons/now
+ * @returns {Promise<Response>} JSON response with the paginated anime list.
+ */
+app.get('/now', async (c) => {
+    let now = new Date();
+
+    return listSeason(c, (options) => {
+        options.filters.season = SEASONS[Math.floor(now.getUTCMonth() / 3)];
+        options.filters.year = now.getUTCFullYear();
+    })
+})
+
+/**
+ * Lists anime that have not aired yet.
+ *
+ * @route GET /v4/seasons/upcoming
+ * @returns {Promise<Response>} JSON response with the paginated anime list.
+ */
+app.get('/upcoming', async (c) => {
+    return listSeason(c, (options) => {
+        options.filters.status = 'upcoming';
+    })
+})
+
+/**
+ * Lists anime of a given season.
+ *
+ * @route GET /v4/seasons/:year/:season
+ * @returns {Promise<Response>} JSON response with the paginated anime list, or 400 for an invalid year or season.
+ */
+app.get('/:year/:season', async (c) => {
+    let year = Number(c.req.param('year'))
+    let season = c.req.param('season').toLowerCase() as Season
+    if (!Number.isInteger(year) || !SEASONS.includes(season)) {
+        return c.json({message: `Invalid season, expected /seasons/{year}/{${SEASONS.join('|')}}`}, 400)
+    }
+
+    return listSeason(c, (options) => {
+        options.filters.season = season;
+        options.filters.year = year;
+    })
+})
+
+export default app
@@ -0,0 +1,63 @@
+import {Hono} from 'hono'
+import '../database/helpers/parser/anime';
+import {AnimeRepository} from "../database/repository/anime-repository";
+import {getDatabase} from "../database";
+import AnimeService from "../services/anime-service";
+import {ObjectToQuery} from "../database/helpers/object-to-query";
+import {toFieldPaths} from "../database/helpers/jikan-params";
+import {PickPageFields} from "../utils/pick-fields";
+import {QueryOptions} from "../database/types/repository";
+
+/**
+ * Router for Top endpoints (v4).
+ */
+const app = new Hono()
+
+/**
+ * Ranking for each value of Jikan's `filter` parameter: the column ranked on (rows without a value are left out),
+ * its direction, and the extra constraint the filter implies.
+ */
+const TOP_ANIME_FILTERS: { [filter: string]: { column: string, direction: 'ASC' | 'DESC', constrain?: (options: QueryOptions) => void } } = {
+    airing: {column: 'rank', direction: 'ASC', constrain: (options) => options.filters.status = 'airing'},
+    upcoming: {column: 'popularity', direction: 'ASC', constrain: (options) => options.filters.status = 'upcoming'},
+    bypopularity: {column: 'popularity', direction: 'ASC'},
+    favorite: {column: 'favorites', direction: 'DESC'},
+};
+
+/**
+ * Lists the top anime from the local DB, paginated like Jikan.
+ *
+ * Ranks by `rank` by default; Jikan's `filter` switches to airing or upcoming anime, popularity or favorites
+ * (see TOP_ANIME_FILTERS). Anime without a positive value in the ranked column are left out. `type`, `rating`, `sfw`
+ * and the other list parameters still apply; `order_by` and `sort` are ignored.
+ *
+ * @route GET /v4/top/anime
+ * @returns {Promise<Response>} JSON response with the paginated anime list, or 400 for an unknown filter.
+ */
+app.get('/anime', async (c) => {
+    let {filter, order_by, orderBy, sort, orderDirection, ...params} = c.req.query()
+    let ranking = filter ? TOP_ANIME_FILTERS[filter.toLowerCase()] : {column: 'rank', direction: 'ASC' as const}
+    if (!ranking) {
+        return c.json({message: `Invalid filter, expected one of: ${Object.keys(TOP_ANIME_FILTERS).join(', ')}`}, 400)
+    }
+
+    try {
+        let db = getDatabase();
+        const animeService = new AnimeService(new AnimeRepository(db));
+
+        let queryOptions = ObjectToQuery(params); // Convert query params to QueryOptions
+        queryOptions.conditions!!.push({column: ranking.column, operator: 'gt', value: 0});
+        queryOptions.orderBy = ranking.column;
+        queryOptions.orderDirection = ranking.direction;
+        ranking.constrain?.(queryOptions);
+
+        let result = await animeService.paginate(queryOptions);
+
+        return c.json(PickPageFields(result, toFieldPaths("anime", queryOptions)));
+    } catch (e) {
+        c.status(500)
+        return c.json({error: e})
+    }
+})
+
+export default app
@@ -18,6 +18,18 @@ export function columnExists(tableName: string, columnName: string, db: Database
     return columns.some((col: any) => col.name === columnName);
 }
 
+/**
+ * Checks if a table (including virtual tables such as FTS5 indexes) exists in the database.
+ *
+ * @param {string} tableName - The name of the table to look for.
+ * @param {Database} db - The database instance to query.
+ * @return {boolean} - Returns true if the table exists, otherwise false.
+ */
+export function tableExists(tableName: string, db: Database): boolean {
+    const stmt = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?");
+    return stmt.get(tableName) !== null;
+}
+
 /**
  * Adds a new column to a specified table in the database, if the column does not already exist.
  *
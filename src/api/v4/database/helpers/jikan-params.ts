@@ -0,0 +1,217 @@
+import {QueryOptions} from "../types/repository";
+
+/**
+ * A many-to-many relation (e.g. anime to genres) searchable by ID lists.
+ */
+export type JikanRelation = {
+    /** Entry kinds (JSON column names, e.g. `genres`, `themes`, `studios`) the relation covers. */
+    kinds: string[]
+    /** Normalized relation table; when absent the JSON columns named by `kinds` are searched instead. */
+    table?: string
+    /** Column of the relation table referencing the entity's `mal_id`. */
+    foreignKey?: string
+    /** Column of the relation table holding the related entry's `mal_id`. */
+    column?: string
+}
+
+/**
+ * An FTS5 index used for `q` searches instead of `LIKE` scans.
+ */
+export type JikanSearchIndex = {
+    /** FTS5 table whose rowid is the entity's `mal_id`. */
+    table: string
+    /** Indexed title columns searched by default. */
+    titleColumns: string[]
+    /** Indexed synopsis column, searched only when requested. */
+    synopsisColumn: string
+}
+
+/**
+ * Table-specific knowledge needed to translate Jikan search parameters into SQL.
+ *
+ * Jikan accepts lower-case enum values (e.g. `type=tv`, `status=airing`, `rating=pg13`) and
+ * generic names (`start_date`, `producers`) that map to different columns per entity.
+ */
+export type JikanTableConfig = {
+    /** Column holding the start date (ISO string) used by `start_date` and `order_by=start_date`. */
+    startDateColumn?: string
+    /** Column holding the end date (ISO string) used by `end_date` and `order_by=end_date`. */
+    endDateColumn?: string
+    /** TEXT columns holding numbers (e.g. `episodes`), ordered and keyset-paged numerically rather than as text. */
+    numericTextColumns?: string[]
+    /** Jikan parameter names (filters and `order_by` values) stored under a different column name. */
+    columns?: {
+        [param: string]: string
+    }
+    /** Many-to-many relations searched by `genres`, `genres_exclude`, `producers` (or `magazines`), `studios` and `licensors`. */
+    relations: {
+        [option: string]: JikanRelation
+    }
+    /** Full-text index for `q`; when absent (or not created) titles are searched with `LIKE`. */
+    search?: JikanSearchIndex
+    /** Named field presets selectable with `view` (e.g. `view=compact` for listing cards). */
+    views?: {
+        [view: string]: string[]
+    }
+    /** Lower-case Jikan enum value to stored value, per (stored) filter column. */
+    values: {
+        [column: string]: { [value: string]: string }
+    }
+}
+
+const GENRE_KINDS = ["genres", "explicit_genres", "themes", "demographics"];
+
+const TITLE_COLUMNS = ["title", "title_english", "title_japanese", "title_synonyms", "titles"];
+
+const JIKAN_TABLES: { [tableName: string]: JikanTableConfig } = {
+    anime: {
+        startDateColumn: "aired.from",
+        endDateColumn: "aired.to",
+        numericTextColumns: ["episodes", "aired.prop.to.day", "aired.prop.to.month", "aired.prop.to.year"],
+        relations: {
+            genres: {kinds: GENRE_KINDS, table: "anime_genres", foreignKey: "anime_id", column: "genre_id"},
+            producers: {kinds: ["producers", "licensors", "studios"], table: "anime_producers", foreignKey: "anime_id", column: "producer_id"},
+            studios: {kinds: ["studios"], table: "anime_producers", foreignKey: "anime_id", column: "producer_id"},
+            licensors: {kinds: ["licensors"], table: "anime_producers", foreignKey: "anime_id", column: "producer_id"},
+        },
+        search: {table: "anime_fts", titleColumns: TITLE_COLUMNS, synopsisColumn: "synopsis"},
+        views: {
+            compact: [
+                "mal_id", "title", "title_english", "images.jpg.image_url", "images.webp.image_url",
+                "type", "episodes", "status", "score", "season", "year",
+            ],
+        },
+        values: {
+            type: {
+                tv: "TV",
+                movie: "Movie",
+                ova: "OVA",
+                special: "Special",
+                ona: "ONA",
+                music: "Music",
+                cm: "CM",
+                pv: "PV",
+                tv_special: "TV Special",
+            },
+            status: {
+                airing: "Currently Airing",
+                complete: "Finished Airing",
+                upcoming: "Not yet aired",
+            },
+            rating: {
+                g: "G - All Ages",
+                pg: "PG - Children",
+                pg13: "PG-13 - Teens 13 or older",
+                r17: "R - 17+ (violence & profanity)",
+                r: "R+ - Mild Nudity",
+                rx: "Rx - Hentai",
+            },
+        },
+    },
+    manga: {
+        startDateColumn: "published.from",
+        endDateColumn: "published.to",
+        relations: {
+            genres: {kinds: GENRE_KINDS},
+            producers: {kinds: ["serializations"]},
+        },
+        search: {table: "manga_fts", titleColumns: TITLE_COLUMNS, synopsisColumn: "synopsis"},
+        values: {
+            type: {
+                manga: "Manga",
+                novel: "Novel",
+                lightnovel: "Light Novel",
+                oneshot: "One-shot",
+                doujin: "Doujinshi",
+                manhwa: "Manhwa",
+                manhua: "Manhua",
+            },
+            status: {
+                publishing: "Publishing",
+                complete: "Finished",
+                hiatus: "On Hiatus",
+                discontinued: "Discontinued",
+                upcoming: "Not yet published",
+            },
+        },
+    },
+    clubs: {
+        columns: {
+            type: "access",
+            members_count: "members",
+        },
+        relations: {},
+        values: {
+            category: {
+                actors_and_artists: "actors & artists",
+                cities_and_neighborhoods: "cities & neighborhoods",
+            },
+        },
+    },
+};
+
+/**
+ * Returns the Jikan parameter configuration for a table, if it has one.
+ *
+ * @param tableName Target table name.
+ * @returns The table configuration or `undefined` for tables without Jikan search semantics.
+ */
+export function getJikanConfig(tableName: string): JikanTableConfig | undefined {
+    return JIKAN_TABLES[tableName];
+}
+
+/**
+ * Resolves a Jikan parameter name to the column it is stored in (e.g. clubs' `type` is stored as `access`).
+ *
+ * @param tableName Target table name.
+ * @param param Filter or order parameter name.
+ * @returns The column name; the parameter itself when it is not aliased.
+ */
+export function toColumn(tableName: string, param: string): string {
+    return JIKAN_TABLES[tableName]?.columns?.[param] ?? param;
+}
+
+/**
+ * Translates a Jikan enum filter value (e.g. `tv`) into the value stored in the table (e.g. `TV`).
+ * Values that are not known Jikan enums are returned unchanged, so stored values keep working.
+ *
+ * @param tableName Target table name.
+ * @param column Filter column name.
+ * @param value Raw filter value.
+ * @returns The stored value to compare against.
+ */
+export function toStoredValue(tableName: string, column: string, value: any): any {
+    const mapping = JIKAN_TABLES[tableName]?.values[column];
+    if (!mapping || typeof value !== "string") return value;
+    return mapping[value.toLowerCase()] ?? value;
+}
+
+/**
+ * Resolves a Jikan `order_by` value to a column name; `start_date` and `end_date` map to the table's date columns
+ * and aliased parameters to their stored column.
+ *
+ * @param tableName Target table name.
+ * @param orderBy Requested order column.
+ * @returns The column to order by.
+ */
+export function toOrderColumn(tableName: string, orderBy: string): string {
+    const config = JIKAN_TABLES[tableName];
+    if (config?.startDateColumn && orderBy === "start_date") return config.startDateColumn;
+    if (config?.endDateColumn && orderBy === "end_date") return config.endDateColumn;
+    return toColumn(tableName, orderBy);
+}
+
+/**
+ * Resolves the fields requested through `fields` and/or a `view` preset of the table.
+ * `mal_id` is always included; unknown views contribute nothing.
+ *
+ * @param tableName Target table name.
+ * @param query Query options (uses `fields` and `view`).
+ * @returns The dot-path field names, or `undefined` when the full entity is requested.
+ */
+export function toFieldPaths(tableName: string, query: QueryOptions): string[] | undefined {
+    const preset = query.view ? JIKAN_TABLES[tableName]?.views?.[query.view] ?? [] : [];
+    const fields = [...preset, ...(query.fields ?? [])];
+    if (!fields.length) return undefined;
+    return ["mal_id", ...fields].filter((field, i, all) => all.indexOf(field) === i);
+}
@@ -1,4 +1,142 @@
-import {QueryOptions} from "../types/repository";
+import {FilterCondition, FilterOperator, FilterValue, IdFilter, QueryOptions} from "../types/repository";
+
+/**
+ * Largest page size a request may ask for (Jikan's maximum by default), configurable via MAX_PAGE_LIMIT.
+ */
+export const MAX_LIMIT = process.env.MAX_PAGE_LIMIT ? parseInt(process.env.MAX_PAGE_LIMIT) : 25;
+
+/**
+ * Query parameters with a dedicated meaning; everything else is treated as a column filter.
+ */
+const RESERVED_KEYS = [
+    'page', 'limit', 'q', 'search_synopsis', 'orderBy', 'orderDirection', 'order_by', 'sort',
+    'min_score', 'max_score', 'start_date', 'end_date',
+    'genres', 'genres_exclude', 'producers', 'magazines', 'studios', 'licensors', 'sfw', 'letter',
+    'fields', 'view', 'cursor',
+];
+
+/**
+ * Parses a list of IDs into an `IdFilter`: comma-separated IDs ("1,4") must all match,
+ * pipe-separated IDs ("1|4") match when any of them does. Invalid entries are dropped.
+ *
+ * @param {any} value - The raw parameter value.
+ * @returns {IdFilter | undefined} The parsed filter, or undefined when no ID is valid.
+ */
+function toIdFilter(value: any): IdFilter | undefined {
+    if (value === undefined || value === null) return undefined;
+    const raw = String(value);
+    const match = raw.includes('|') ? 'any' : 'all';
+    const ids = raw.split(/[,|]/)
+        .map((v) => Number(v.trim()))
+        .filter((v) => Number.isInteger(v) && v > 0);
+    return ids.length ? {ids, match} : undefined;
+}
+
+/**
+ * Parses a flag parameter; a bare `?flag` or any value other than "false"/"0" enables it.
+ *
+ * @param {any} value - The raw parameter value.
+ * @returns {boolean} Whether the flag is set.
+ */
+function toFlag(value: any): boolean {
+    return value !== undefined && !['false', '0'].includes(String(value).toLowerCase());
+}
+
+/**
+ * Parses a Jikan date parameter (YYYY, YYYY-MM or YYYY-MM-DD).
+ *
+ * @param {any} value - The raw parameter value.
+ * @returns {string | undefined} The date string, or undefined when malformed.
+ */
+function toDate(value: any): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    return /^\d{4}(-\d{2}(-\d{2})?)?$/.test(value) ? value : undefined;
+}
+
+/**
+ * Parses a numeric parameter.
+ *
+ * @param {any} value - The raw parameter value.
+ * @returns {number | undefined} The number, or undefined when missing or not numeric.
+ */
+function toOptionalNumber(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const n = Number(value);
+    return Number.isNaN(n) ? undefined : n;
+}
+
+/**
+ * Parses the page size, defaulting to 25 and capped at MAX_LIMIT; non-positive or non-numeric values use the default.
+ *
+ * @param {any} value - The raw parameter value.
+ * @returns {number} The page size.
+ */
+function toLimit(value: any): number {
+    const n = Math.floor(Number(value));
+    return Math.min(n > 0 ? n : 25, MAX_LIMIT);
+}
+
+/**
+ * Parses a comma-separated list of (dot-path) field names, e.g. "mal_id,title,images.jpg.image_url".
+ *
+ * @param {any} value - The raw parameter value.
+ * @returns {string[] | undefined} The field names, or undefined when none are given.
+ */
+function toFieldList(value: any): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    const fields = String(value).split(',').map((v) => v.trim()).filter(Boolean);
+    return fields.length ? fields : undefined;
+}
+
+/**
+ * Operators accepted in `column[operator]=value` query parameters.
+ */
+const OPERATORS: FilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'like', 'between', 'in', 'nin', 'null'];
+
+/**
+ * Converts numeric-looking strings to numbers so range comparisons are numeric.
+ *
+ * @param {string} value - The raw value.
+ * @returns {FilterValue} A number when the value is numeric, otherwise the trimmed string.
+ */
+function toFilterValue(value: string): FilterValue {
+    const trimmed = value.trim();
+    return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+/**
+ * Parses a `column[operator]` parameter into a filter condition.
+ *
+ * @param {string} key - The parameter name, e.g. `score[gte]`.
+ * @param {any} value - The parameter value.
+ * @returns {FilterCondition | null} The condition, or null when the key has no operator or the value is invalid for it.
+ */
+function toCondition(key: string, value: any): FilterCondition | null {
+    const match = /^(.+)\[(\w+)\]$/.exec(key);
+    if (!match) return null;
+
+    const column = match[1];
+    const operator = match[2].toLowerCase() as FilterOperator;
+    if (!OPERATORS.includes(operator) || value === undefined || value === null) return null;
+
+    const raw = String(value);
+    switch (operator) {
+        case 'between': {
+            const parts = raw.split(',');
+            if (parts.length !== 2) return null;
+            return {column, operator, value: [toFilterValue(parts[0]), toFilterValue(parts[1])]};
+        }
+        case 'in':
+        case 'nin': {
+            const values = raw.split(',').filter((v) => v.trim() !== '').map(toFilterValue);
+            return values.length ? {column, operator, value: values} : null;
+        }
+        case 'null':
+            return {column, operator, value: !['false', '0'].includes(raw.toLowerCase())};
+        default:
+            return {column, operator, value: toFilterValue(raw)};
+    }
+}
 
 /**
  * Converts an object into a `QueryOptions` object, which is used for database queries.
@@ -6,31 +144,70 @@ import {QueryOptions} from "../types/repository";
  * @param {any} obj - The input object containing query parameters.
  * @returns {QueryOptions} - The formatted query options object.
  *
- * The function processes the following properties from the input object:
+ * The function processes the following properties from the input object, using Jikan's parameter names
+ * (the camelCase forms `orderBy` / `orderDirection` are still accepted):
  * - `page`: The page number (default is 1).
- * - `limit`: The number of items per page (default is 25).
- * - `orderBy`: The field to order by (default is 'mal_id').
- * - `orderDirection`: The direction of ordering, either 'ASC' or 'DESC' (default is 'ASC').
+ * - `limit`: The number of items per page (default is 25, at most MAX_LIMIT).
+ * - `q`: Search string matched against titles.
+ * - `search_synopsis`: When present (and not "false"), `q` also matches the synopsis.
+ * - `order_by`: The field to order by (default is relevance when `q` is given, otherwise 'mal_id').
+ * - `sort`: The direction of ordering, either 'asc' or 'desc' (default is 'asc').
+ * - `cursor`: Opaque keyset cursor (`next_cursor` of a previous page); continues after that page instead of using `page`.
+ * - `min_score` / `max_score`: Score bounds (inclusive).
+ * - `start_date` / `end_date`: Date bounds in YYYY, YYYY-MM or YYYY-MM-DD format.
+ * - `genres` / `genres_exclude`: Genre IDs that must be present / absent; "1,4" requires all, "1|4" any.
+ * - `producers` (or `magazines` for manga), `studios`, `licensors`: Producer IDs that must be present, same syntax as `genres`.
+ * - `sfw`: When present (and not "false"), excludes adult entries.
+ * - `letter`: Titles starting with the given letter(s).
+ *
+ * Properties of the form `column[operator]` (e.g. `score[gte]=8`, `year[between]=2010,2015`, `status[in]=a,b`,
+ * `aired.to[null]=true`) are parsed into `conditions`; supported operators are eq, ne, gt, gte, lt, lte, like,
+ * between, in, nin and null.
  *
- * Any other properties in the input object are added to the `filters` property of the `QueryOptions` object.
+ * Any other properties in the input object (e.g. `type`, `status`, `rating`) are added to the `filters` property of the `QueryOptions` object.
  */
 export function ObjectToQuery(obj: any): QueryOptions {
+    const orderBy = obj.order_by || obj.orderBy;
+    const direction = String(obj.sort || obj.orderDirection || '').toUpperCase();
+
     const query: QueryOptions = {
         filters: {},
         search: obj.q || undefined,
+        searchSynopsis: toFlag(obj.search_synopsis) || undefined,
         page: Number(obj.page) || 1,
-        limit: Number(obj.limit) || 25,
-        orderBy: obj.orderBy || 'mal_id',
-        orderDirection: ['ASC', 'DESC'].includes((obj.orderDirection || '').toUpperCase())
-            ? (obj.orderDirection.toUpperCase() as 'ASC' | 'DESC')
+        limit: toLimit(obj.limit),
+        orderBy: orderBy || undefined,
+        orderDirection: ['ASC', 'DESC'].includes(direction)
+            ? (direction as 'ASC' | 'DESC')
             : 'ASC',
+        minScore: toOptionalNumber(obj.min_score),
+        maxScore: toOptionalNumber(obj.max_score),
+        startDate: toDate(obj.start_date),
+        endDate: toDate(obj.end_date),
+        genres: toIdFilter(obj.genres),
+        genresExclude: toIdFilter(obj.genres_exclude),
+        producers: toIdFilter(obj.producers ?? obj.magazines),
+        studios: toIdFilter(obj.studios),
+        licensors: toIdFilter(obj.licensors),
+        sfw: toFlag(obj.sfw) || undefined,
+        letter: obj.letter || undefined,
+        fields: toFieldList(obj.fields),
+        view: obj.view || undefined,
+        cursor: obj.cursor || undefined,
+        conditions: [],
     };
 
-    // Add all other properties as filters
+    // Add operator properties as conditions and all other properties as filters
     Object.keys(obj).forEach((key) => {
-        if (!['page', 'limit', 'q', 'orderBy', 'orderDirection'].includes(key)) {
-            query.filters[key] = obj[key];
+        if (RESERVED_KEYS.includes(key)) return;
+
+        if (/\[\w+\]$/.test(key)) {
+            const condition = toCondition(key, obj[key]);
+            if (condition) query.conditions!!.push(condition);
+            return;
         }
+
+        query.filters[key] = obj[key];
     });
 
     return query;
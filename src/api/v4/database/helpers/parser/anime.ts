@@ -1,4 +1,6 @@
 import {Anime} from "../../../types";
+import {Genre} from "../../../types/genre";
+import {Producer} from "../../../types/producer";
 import {nullableString, parseJSON, parseTitles, toBool, toNullableNumber, toNumber} from "./util";
 
 declare global {
@@ -20,6 +22,12 @@ declare global {
          * @returns {SqlTuple}
          */
         toAnimeUpdateSQL(): SqlTuple;
+
+        /**
+         * Produces the statements that replace an Anime's rows in the genre/producer relation tables.
+         * @returns {SqlTuple[]}
+         */
+        toAnimeRelationSQL(): SqlTuple[];
     }
 }
 
@@ -334,5 +342,73 @@ Object.defineProperty(Object.prototype, "toAnimeUpdateSQL", {
     enumerable: false,
 });
 
+/**
+ * Anime list fields stored in [anime_genres], keyed by the [kind] they are recorded under.
+ */
+const GENRE_KINDS = ["genres", "explicit_genres", "themes", "demographics"] as const;
+
+/**
+ * Anime list fields stored in [anime_producers], keyed by the [kind] they are recorded under.
+ */
+const PRODUCER_KINDS = ["producers", "licensors", "studios"] as const;
+
+// RELATION builder (genres/producers entity rows plus anime relation rows)
+/**
+ * Builds the statements that upsert the referenced genres/producers and replace the current
+ * Anime object's rows in [anime_genres] and [anime_producers].
+ * Only the kinds present on the object are replaced, so a partial update (e.g. just `score`) keeps the stored relations.
+ * @this Anime
+ * @returns {SqlTuple[]} Statements to run in order, ideally inside a transaction.
+ */
+Object.defineProperty(Object.prototype, "toAnimeRelationSQL", {
+    value: function toAnimeRelationSQL(this: any): SqlTuple[] {
+        const a = this as Anime;
+        const statements: SqlTuple[] = [];
+
+        for (const kind of GENRE_KINDS) {
+            if ((a as any)[kind] === undefined) continue;
+            statements.push({sql: `DELETE FROM [anime_genres] WHERE [anime_id] = ? AND [kind] = ?;`, params: [a.mal_id, kind]});
+            for (const g of ((a as any)[kind] ?? []) as Genre[]) {
+                if (g?.mal_id == null) continue;
+                statements.push({
+                    sql: `INSERT INTO [genres] ([mal_id], [type], [name], [url])
+                          VALUES (?, ?, ?, ?)
+                          ON CONFLICT ([mal_id], [type]) DO UPDATE SET [name] = COALESCE(excluded.[name], [name]), [url] = COALESCE(excluded.[url], [url]);`,
+                    params: [g.mal_id, s((g as any).type) ?? "anime", s(g.name), s(g.url)],
+                });
+                statements.push({
+                    sql: `INSERT OR IGNORE INTO [anime_genres] ([anime_id], [genre_id], [kind])
+                          VALUES (?, ?, ?);`,
+                    params: [a.mal_id, g.mal_id, kind],
+                });
+            }
+        }
+
+        for (const kind of PRODUCER_KINDS) {
+            if ((a as any)[kind] === undefined) continue;
+            statements.push({sql: `DELETE FROM [anime_producers] WHERE [anime_id] = ? AND [kind] = ?;`, params: [a.mal_id, kind]});
+            for (const p of ((a as any)[kind] ?? []) as Producer[]) {
+                if (p?.mal_id == null) continue;
+                statements.push({
+                    sql: `INSERT INTO [producers] ([mal_id], [type], [name], [url])
+                          VALUES (?, ?, ?, ?)
+                          ON CONFLICT ([mal_id]) DO UPDATE SET [type] = COALESCE(excluded.[type], [type]), [name] = COALESCE(excluded.[name], [name]), [url] = COALESCE(excluded.[url], [url]);`,
+                    params: [p.mal_id, s(p.type), s(p.name), s(p.url)],
+                });
+                statements.push({
+                    sql: `INSERT OR IGNORE INTO [anime_producers] ([anime_id], [producer_id], [kind])
+                          VALUES (?, ?, ?);`,
+                    params: [a.mal_id, p.mal_id, kind],
+                });
+            }
+        }
+
+        return statements;
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
 // make this a module to apply global augmentation
 export {};
\ No newline at end of file
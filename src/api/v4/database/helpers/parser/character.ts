@@ -0,0 +1,209 @@
+import {AnimeCharacter, Character} from "../../../types";
+import {nullableString, parseJSON, toNullableNumber, toNumber} from "./util";
+
+declare global {
+    interface Object {
+        /**
+         * Converts a plain database row object to a strongly-typed Character entity.
+         * @returns {Character}
+         */
+        toCharacter(): Character;
+
+        /**
+         * Converts a plain [anime_characters] row joined with [characters] to an AnimeCharacter entry.
+         * @returns {AnimeCharacter}
+         */
+        toAnimeCharacter(): AnimeCharacter;
+
+        /**
+         * Produces an INSERT SQL statement and parameters for persisting a Character.
+         * @returns {SqlTuple}
+         */
+        toCharacterInsertSQL(): SqlTuple;
+
+        /**
+         * Produces an UPDATE SQL statement (by [mal_id]) and parameters for a Character.
+         * @returns {SqlTuple}
+         */
+        toCharacterUpdateSQL(): SqlTuple;
+    }
+}
+
+// non-enumerable to avoid polluting object keys
+/**
+ * Converts the current object (assumed DB row) into a Character object by mapping and parsing fields.
+ *
+ * @this any
+ * @returns {Character} Mapped Character entity.
+ */
+Object.defineProperty(Object.prototype, "toCharacter", {
+    value: function toCharacter(this: any): Character {
+        const row: any = this;
+
+        return {
+            mal_id: toNumber(row["mal_id"]),
+            url: nullableString(row["url"]) ?? "",
+            images: {
+                jpg: {
+                    image_url: nullableString(row["images.jpg.image_url"]),
+                },
+                webp: {
+                    image_url: nullableString(row["images.webp.image_url"]),
+                    small_image_url: nullableString(row["images.webp.small_image_url"]),
+                },
+            },
+            name: nullableString(row["name"]) ?? "",
+            name_kanji: nullableString(row["name_kanji"]),
+            nicknames: parseJSON<string[]>(row["nicknames"], []),
+            favorites: toNumber(row["favorites"]),
+            about: nullableString(row["about"]),
+        } as unknown as Character;
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+/**
+ * Converts the current object (assumed [anime_characters] row joined with [characters]) into an AnimeCharacter entry.
+ *
+ * @this any
+ * @returns {AnimeCharacter} Mapped AnimeCharacter entry.
+ */
+Object.defineProperty(Object.prototype, "toAnimeCharacter", {
+    value: function toAnimeCharacter(this: any): AnimeCharacter {
+        const row: any = this;
+
+        return {
+            character: {
+                mal_id: toNumber(row["character_id"]),
+                url: nullableString(row["url"]) ?? "",
+                images: {
+                    jpg: {
+                        image_url: nullableString(row["images.jpg.image_url"]),
+                    },
+                    webp: {
+                        image_url: nullableString(row["images.webp.image_url"]),
+                        small_image_url: nullableString(row["images.webp.small_image_url"]),
+                    },
+                },
+                name: nullableString(row["name"]) ?? "",
+            },
+            role: nullableString(row["role"]),
+            favorites: toNullableNumber(row["role_favorites"]),
+            voice_actors: parseJSON(row["voice_actors"], []),
+        } as unknown as AnimeCharacter;
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+/**
+ * A small helper tuple containing a SQL statement and its parameter values.
+ */
+type SqlTuple = { sql: string; params: any[] };
+
+/**
+ * JSON-stringifies non-null/undefined values; returns null otherwise.
+ * @param {unknown} v - Value to serialize.
+ * @returns {string | null}
+ */
+const j = (v: unknown) => (v === undefined ? null : v === null ? null : JSON.stringify(v));
+
+/**
+ * Normalizes a possibly undefined/null string to null.
+ * @param {string | null | undefined} v
+ * @returns {string | null}
+ */
+const s = (v?: string | null) => (v ?? null);
+
+/**
+ * Normalizes a possibly undefined/null number to null.
+ * @param {number | null | undefined} v
+ * @returns {number | null}
+ */
+const n = (v?: number | null) => (v ?? null);
+
+/**
+ * Column names used for building SQL statements for the characters table.
+ */
+const CHARACTER_COLUMNS = [
+    "[mal_id]",
+    "[url]",
+    "[images.jpg.image_url]",
+    "[images.webp.image_url]",
+    "[images.webp.small_image_url]",
+    "[name]",
+    "[name_kanji]",
+    "[nicknames]",
+    "[favorites]",
+    "[about]",
+] as const;
+
+/**
+ * Produces the parameter values (aligned with CHARACTER_COLUMNS) for a Character entity.
+ * @param {Character} c - The Character entity.
+ * @returns {any[]} Ordered values to be used with prepared SQL statements.
+ */
+function characterValues(c: Character): any[] {
+    return [
+        n(c.mal_id),
+        s(c.url),
+        s(c.images?.jpg?.image_url),
+        s(c.images?.webp?.image_url),
+        s(c.images?.webp?.small_image_url),
+        s(c.name),
+        s(c.name_kanji),
+        j(c.nicknames ?? []),
+        n(c.favorites),
+        s(c.about),
+    ];
+}
+
+// INSERT builder
+/**
+ * Builds an INSERT statement and parameters for the current Character object.
+ * @this Character
+ * @returns {SqlTuple} Tuple of SQL and params for INSERT.
+ */
+Object.defineProperty(Object.prototype, "toCharacterInsertSQL", {
+    value: function toCharacterInsertSQL(this: any): SqlTuple {
+        const c = this as Character;
+        const cols = CHARACTER_COLUMNS.join(", ");
+        const placeholders = CHARACTER_COLUMNS.map(() => "?").join(", ");
+        const sql = `INSERT INTO [characters] (${cols})
+                     VALUES (${placeholders});`;
+        const params = characterValues(c);
+        return {sql, params};
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+// UPDATE builder (by primary key [mal_id])
+/**
+ * Builds an UPDATE statement (by [mal_id]) and parameters for the current Character object.
+ * @this Character
+ * @returns {SqlTuple} Tuple of SQL and params for UPDATE.
+ */
+Object.defineProperty(Object.prototype, "toCharacterUpdateSQL", {
+    value: function toCharacterUpdateSQL(this: any): SqlTuple {
+        const c = this as Character;
+        const allValues = characterValues(c);
+        const malIdIdx = CHARACTER_COLUMNS.indexOf("[mal_id]");
+        const setPairs = CHARACTER_COLUMNS.filter((col) => col !== "[mal_id]").map((col) => `${col} = ?`).join(", ");
+        const params = allValues.filter((_, i) => i !== malIdIdx).concat([c.mal_id]);
+        const sql = `UPDATE [characters]
+                     SET ${setPairs}
+                     WHERE [mal_id] = ?;`;
+        return {sql, params};
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+// make this a module to apply global augmentation
+export {};
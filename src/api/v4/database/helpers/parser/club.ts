@@ -0,0 +1,153 @@
+import {Club} from "../../../types";
+import {nullableString, toNumber} from "./util";
+
+declare global {
+    interface Object {
+        /**
+         * Converts a plain database row object to a strongly-typed Club entity.
+         * @returns {Club}
+         */
+        toClub(): Club;
+
+        /**
+         * Produces an INSERT SQL statement and parameters for persisting a Club.
+         * @returns {SqlTuple}
+         */
+        toClubInsertSQL(): SqlTuple;
+
+        /**
+         * Produces an UPDATE SQL statement (by [mal_id]) and parameters for a Club.
+         * @returns {SqlTuple}
+         */
+        toClubUpdateSQL(): SqlTuple;
+    }
+}
+
+// non-enumerable to avoid polluting object keys
+/**
+ * Converts the current object (assumed DB row) into a Club object by mapping and parsing fields.
+ *
+ * @this any
+ * @returns {Club} Mapped Club entity.
+ */
+Object.defineProperty(Object.prototype, "toClub", {
+    value: function toClub(this: any): Club {
+        const row: any = this;
+
+        return {
+            mal_id: toNumber(row["mal_id"]),
+            url: nullableString(row["url"]) ?? "",
+            images: {
+                jpg: {
+                    image_url: nullableString(row["images.jpg.image_url"]),
+                },
+            },
+            name: nullableString(row["name"]) ?? "",
+            members: toNumber(row["members"]),
+            category: nullableString(row["category"]),
+            created: nullableString(row["created"]),
+            access: nullableString(row["access"]),
+        } as unknown as Club;
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+/**
+ * A small helper tuple containing a SQL statement and its parameter values.
+ */
+type SqlTuple = { sql: string; params: any[] };
+
+/**
+ * Normalizes a possibly undefined/null string to null.
+ * @param {string | null | undefined} v
+ * @returns {string | null}
+ */
+const s = (v?: string | null) => (v ?? null);
+
+/**
+ * Normalizes a possibly undefined/null number to null.
+ * @param {number | null | undefined} v
+ * @returns {number | null}
+ */
+const n = (v?: number | null) => (v ?? null);
+
+/**
+ * Column names used for building SQL statements for the clubs table.
+ */
+const CLUB_COLUMNS = [
+    "[mal_id]",
+    "[url]",
+    "[images.jpg.image_url]",
+    "[name]",
+    "[members]",
+    "[category]",
+    "[created]",
+    "[access]",
+] as const;
+
+/**
+ * Produces the parameter values (aligned with CLUB_COLUMNS) for a Club entity.
+ * @param {Club} c - The Club entity.
+ * @returns {any[]} Ordered values to be used with prepared SQL statements.
+ */
+function clubValues(c: Club): any[] {
+    return [
+        n(c.mal_id),
+        s(c.url),
+        s(c.images?.jpg?.image_url),
+        s(c.name),
+        n(c.members),
+        s(c.category),
+        s(c.created),
+        s(c.access),
+    ];
+}
+
+// INSERT builder
+/**
+ * Builds an INSERT statement and parameters for the current Club object.
+ * @this Club
+ * @returns {SqlTuple} Tuple of SQL and params for INSERT.
+ */
+Object.defineProperty(Object.prototype, "toClubInsertSQL", {
+    value: function toClubInsertSQL(this: any): SqlTuple {
+        const c = this as Club;
+        const cols = CLUB_COLUMNS.join(", ");
+        const placeholders = CLUB_COLUMNS.map(() => "?").join(", ");
+        const sql = `INSERT INTO [clubs] (${cols})
+                     VALUES (${placeholders});`;
+        const params = clubValues(c);
+        return {sql, params};
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+// UPDATE builder (by primary key [mal_id])
+/**
+ * Builds an UPDATE statement (by [mal_id]) and parameters for the current Club object.
+ * @this Club
+ * @returns {SqlTuple} Tuple of SQL and params for UPDATE.
+ */
+Object.defineProperty(Object.prototype, "toClubUpdateSQL", {
+    value: function toClubUpdateSQL(this: any): SqlTuple {
+        const c = this as Club;
+        const allValues = clubValues(c);
+        const malIdIdx = CLUB_COLUMNS.indexOf("[mal_id]");
+        const setPairs = CLUB_COLUMNS.filter((col) => col !== "[mal_id]").map((col) => `${col} = ?`).join(", ");
+        const params = allValues.filter((_, i) => i !== malIdIdx).concat([c.mal_id]);
+        const sql = `UPDATE [clubs]
+                     SET ${setPairs}
+                     WHERE [mal_id] = ?;`;
+        return {sql, params};
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+// make this a module to apply global augmentation
+export {};
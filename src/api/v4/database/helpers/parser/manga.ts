@@ -0,0 +1,284 @@
+import {Manga} from "../../../types";
+import {nullableString, parseJSON, parseTitles, toBool, toNullableNumber, toNumber} from "./util";
+
+declare global {
+    interface Object {
+        /**
+         * Converts a plain database row object to a strongly-typed Manga entity.
+         * @returns {Manga}
+         */
+        toManga(): Manga;
+
+        /**
+         * Produces an INSERT SQL statement and parameters for persisting a Manga.
+         * @returns {SqlTuple}
+         */
+        toMangaInsertSQL(): SqlTuple;
+
+        /**
+         * Produces an UPDATE SQL statement (by [mal_id]) and parameters for a Manga.
+         * @returns {SqlTuple}
+         */
+        toMangaUpdateSQL(): SqlTuple;
+    }
+}
+
+// non-enumerable to avoid polluting object keys
+/**
+ * Converts the current object (assumed DB row) into a Manga object by mapping and parsing fields.
+ *
+ * @this any
+ * @returns {Manga} Mapped Manga entity.
+ */
+Object.defineProperty(Object.prototype, "toManga", {
+    value: function toManga(this: any): Manga {
+        const row: any = this;
+
+        const titles = parseTitles(row["titles"], nullableString(row["title"]) ?? "");
+
+        return {
+            mal_id: toNumber(row["mal_id"]),
+            url: nullableString(row["url"]) ?? "",
+            images: {
+                jpg: {
+                    image_url: nullableString(row["images.jpg.image_url"]),
+                    small_image_url: nullableString(row["images.jpg.small_image_url"]),
+                    large_image_url: nullableString(row["images.jpg.large_image_url"]),
+                },
+                webp: {
+                    image_url: nullableString(row["images.webp.image_url"]),
+                    small_image_url: nullableString(row["images.webp.small_image_url"]),
+                    large_image_url: nullableString(row["images.webp.large_image_url"]),
+                },
+            },
+            approved: toBool(row["approved"]),
+            titles,
+            title: nullableString(row["title"]) ?? "",
+            title_english: nullableString(row["title_english"]),
+            title_japanese: nullableString(row["title_japanese"]),
+            title_synonyms: parseJSON<string[]>(row["title_synonyms"], []),
+            type: nullableString(row["type"]),
+            chapters: toNullableNumber(row["chapters"]),
+            volumes: toNullableNumber(row["volumes"]),
+            status: nullableString(row["status"]),
+            publishing: toBool(row["publishing"]),
+            published: {
+                from: nullableString(row["published.from"]),
+                to: nullableString(row["published.to"]),
+                prop: {
+                    from: {
+                        day: toNullableNumber(row["published.prop.from.day"]),
+                        month: toNullableNumber(row["published.prop.from.month"]),
+                        year: toNullableNumber(row["published.prop.from.year"]),
+                    },
+                    to: {
+                        day: toNullableNumber(row["published.prop.to.day"]),
+                        month: toNullableNumber(row["published.prop.to.month"]),
+                        year: toNullableNumber(row["published.prop.to.year"]),
+                    },
+                },
+                string: nullableString(row["published.string"]),
+            },
+            score: toNullableNumber(row["score"]),
+            scored: toNullableNumber(row["scored"]),
+            scored_by: toNumber(row["scored_by"]),
+            rank: toNullableNumber(row["rank"]),
+            popularity: toNumber(row["popularity"]),
+            members: toNumber(row["members"]),
+            favorites: toNumber(row["favorites"]),
+            synopsis: nullableString(row["synopsis"]),
+            background: nullableString(row["background"]),
+            authors: parseJSON(row["authors"], []),
+            serializations: parseJSON(row["serializations"], []),
+            genres: parseJSON(row["genres"], []),
+            explicit_genres: parseJSON(row["explicit_genres"], []),
+            themes: parseJSON(row["themes"], []),
+            demographics: parseJSON(row["demographics"], []),
+        } as unknown as Manga;
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+/**
+ * A small helper tuple containing a SQL statement and its parameter values.
+ */
+type SqlTuple = { sql: string; params: any[] };
+
+/**
+ * JSON-stringifies non-null/undefined values; returns null otherwise.
+ * @param {unknown} v - Value to serialize.
+ * @returns {string | null}
+ */
+const j = (v: unknown) => (v === undefined ? null : v === null ? null : JSON.stringify(v));
+
+/**
+ * Normalizes a possibly undefined/null string to null.
+ * @param {string | null | undefined} v
+ * @returns {string | null}
+ */
+const s = (v?: string | null) => (v ?? null);
+
+/**
+ * Normalizes a possibly undefined/null number to null.
+ * @param {number | null | undefined} v
+ * @returns {number | null}
+ */
+const n = (v?: number | null) => (v ?? null);
+
+/**
+ * Converts a boolean-ish value to 1/0 (SQLite friendly); null/undefined become 0.
+ * @param {boolean | null | undefined} v
+ * @returns {0 | 1}
+ */
+const b = (v?: boolean | null) => (v ? 1 : 0);
+
+/**
+ * Column names used for building SQL statements for the manga table.
+ */
+const MANGA_COLUMNS = [
+    "[mal_id]",
+    "[url]",
+    "[images.jpg.image_url]",
+    "[images.jpg.small_image_url]",
+    "[images.jpg.large_image_url]",
+    "[images.webp.image_url]",
+    "[images.webp.small_image_url]",
+    "[images.webp.large_image_url]",
+    "[approved]",
+    "[titles]",
+    "[title]",
+    "[title_english]",
+    "[title_japanese]",
+    "[title_synonyms]",
+    "[type]",
+    "[chapters]",
+    "[volumes]",
+    "[status]",
+    "[publishing]",
+    "[published.from]",
+    "[published.to]",
+    "[published.prop.from.day]",
+    "[published.prop.from.month]",
+    "[published.prop.from.year]",
+    "[published.prop.to.day]",
+    "[published.prop.to.month]",
+    "[published.prop.to.year]",
+    "[published.string]",
+    "[score]",
+    "[scored]",
+    "[scored_by]",
+    "[rank]",
+    "[popularity]",
+    "[members]",
+    "[favorites]",
+    "[synopsis]",
+    "[background]",
+    "[authors]",
+    "[serializations]",
+    "[genres]",
+    "[explicit_genres]",
+    "[themes]",
+    "[demographics]",
+] as const;
+
+/**
+ * Produces the parameter values (aligned with MANGA_COLUMNS) for a Manga entity.
+ * @param {Manga} m - The Manga entity.
+ * @returns {any[]} Ordered values to be used with prepared SQL statements.
+ */
+function mangaValues(m: Manga): any[] {
+    return [
+        n(m.mal_id),
+        s(m.url),
+        s(m.images?.jpg?.image_url),
+        s(m.images?.jpg?.small_image_url),
+        s(m.images?.jpg?.large_image_url),
+        s(m.images?.webp?.image_url),
+        s(m.images?.webp?.small_image_url),
+        s(m.images?.webp?.large_image_url),
+        b(m.approved),
+        j(m.titles ?? []),
+        s(m.title),
+        s(m.title_english),
+        s(m.title_japanese),
+        j(m.title_synonyms ?? []),
+        s(m.type),
+        n(m.chapters),
+        n(m.volumes),
+        s(m.status),
+        b(m.publishing),
+        s(m.published?.from),
+        s(m.published?.to),
+        n(m.published?.prop?.from?.day ?? null),
+        n(m.published?.prop?.from?.month ?? null),
+        n(m.published?.prop?.from?.year ?? null),
+        n(m.published?.prop?.to?.day ?? null),
+        n(m.published?.prop?.to?.month ?? null),
+        n(m.published?.prop?.to?.year ?? null),
+        s(m.published?.string),
+        m.score ?? null,
+        m.scored ?? null,
+        n(m.scored_by),
+        m.rank ?? null,
+        n(m.popularity),
+        n(m.members),
+        n(m.favorites),
+        s(m.synopsis),
+        s(m.background),
+        j(m.authors ?? []),
+        j(m.serializations ?? []),
+        j(m.genres ?? []),
+        j(m.explicit_genres ?? []),
+        j(m.themes ?? []),
+        j(m.demographics ?? []),
+    ];
+}
+
+// INSERT builder
+/**
+ * Builds an INSERT statement and parameters for the current Manga object.
+ * @this Manga
+ * @returns {SqlTuple} Tuple of SQL and params for INSERT.
+ */
+Object.defineProperty(Object.prototype, "toMangaInsertSQL", {
+    value: function toMangaInsertSQL(this: any): SqlTuple {
+        const m = this as Manga;
+        const cols = MANGA_COLUMNS.join(", ");
+        const placeholders = MANGA_COLUMNS.map(() => "?").join(", ");
+        const sql = `INSERT INTO [manga] (${cols})
+                     VALUES (${placeholders});`;
+        const params = mangaValues(m);
+        return {sql, params};
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+// UPDATE builder (by primary key [mal_id])
+/**
+ * Builds an UPDATE statement (by [mal_id]) and parameters for the current Manga object.
+ * @this Manga
+ * @returns {SqlTuple} Tuple of SQL and params for UPDATE.
+ */
+Object.defineProperty(Object.prototype, "toMangaUpdateSQL", {
+    value: function toMangaUpdateSQL(this: any): SqlTuple {
+        const m = this as Manga;
+        const allValues = mangaValues(m);
+        const malIdIdx = MANGA_COLUMNS.indexOf("[mal_id]");
+        const setPairs = MANGA_COLUMNS.filter((c) => c !== "[mal_id]").map((c) => `${c} = ?`).join(", ");
+        const params = allValues.filter((_, i) => i !== malIdIdx).concat([m.mal_id]);
+        const sql = `UPDATE [manga]
+                     SET ${setPairs}
+                     WHERE [mal_id] = ?;`;
+        return {sql, params};
+    },
+    writable: false,
+    configurable: true,
+    enumerable: false,
+});
+
+// make this a module to apply global augmentation
+export {};
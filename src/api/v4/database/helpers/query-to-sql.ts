@@ -7,9 +7,11 @@
  * - Values are always bound as parameters to prevent SQL injection.
  */
 
-import {QueryOptions} from "../types/repository";
-import {getColumns} from "./column";
+import {FilterCondition, IdFilter, QueryOptions} from "../types/repository";
+import {getColumns, tableExists} from "./column";
 import {getDatabase} from "../index";
+import {getJikanConfig, JikanRelation, JikanSearchIndex, toColumn, toFieldPaths, toOrderColumn, toStoredValue} from "./jikan-params";
+import {CursorPosition, DecodeCursor, EncodeCursor} from "../../utils/cursor";
 
 /**
  * Quote a SQL identifier using backticks and escape existing backticks.
@@ -29,75 +31,428 @@ const quoteIdent = (name: string) => "`" + name.replace(/`/g, "``") + "`";
 const isPositiveInt = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
 
 /**
- * Build a SELECT query and parameters from the provided `QueryOptions`.
+ * Build an FTS5 MATCH expression from free-text input.
  *
- * Behavior:
- * - SELECTs all columns from the given table.
- * - Adds `WHERE` filters for `query.filters` keys that are known columns.
- * - Adds a `LIKE` search across text columns whose names include "title".
- * - Adds `ORDER BY` if `orderBy` is a known column; direction defaults to ASC.
- * - Adds `LIMIT` and `OFFSET` (OFFSET only when LIMIT is present).
+ * Each whitespace-separated term is quoted (so FTS operators in user input are matched literally)
+ * and prefix-matched; all terms must match. The expression is restricted to the given columns.
  *
- * All dynamic values are parameterized; only identifiers are interpolated after validation/quoting.
+ * @param search Raw search text.
+ * @param columns Indexed columns to search.
+ * @returns The MATCH expression, or null when the input has no terms.
+ */
+function toMatchExpression(search: string, columns: string[]): string | null {
+    const terms = search.split(/\s+/).filter(Boolean).map(t => `"${t.replace(/"/g, '""')}"*`);
+    if (!terms.length) return null;
+    return `{${columns.join(" ")}} : (${terms.join(" ")})`;
+}
+
+/**
+ * Build the join restricting rows to full-text matches, exposing the BM25 relevance as `fts_rank`.
  *
- * @param query Query options:
- *   - `filters`: Record of column\->value equals comparisons.
- *   - `search`: Full-text LIKE search string (applied to title-like text columns).
- *   - `orderBy`: Column name to sort by (must exist in the table).
- *   - `orderDirection`: "ASC" or "DESC" (defaults to "ASC").
- *   - `limit`: Max rows to return (non-negative integer).
- *   - `page`: 1-based page index used to compute OFFSET when `limit` is set.
+ * @param index The table's FTS5 index.
  * @param tableName Target table name.
- * @returns Promise resolving to `{ sql, params }` ready for prepared execution.
+ * @param query Query options (uses `search` and `searchSynopsis`).
+ * @returns The JOIN fragment and its parameter, or null when there is nothing to match.
  */
-export async function QueryToSQL(query: QueryOptions, tableName: string): Promise<{ sql: string, params: any[] }> {
-    const db = getDatabase();
-    const cols = getColumns(tableName, db);
-    const colNames = new Set(cols.map(c => c.name));
+function searchJoin(index: JikanSearchIndex, tableName: string, query: QueryOptions): { sql: string, params: any[] } | null {
+    const columns = query.searchSynopsis ? [...index.titleColumns, index.synopsisColumn] : index.titleColumns;
+    const match = toMatchExpression(query.search ?? "", columns);
+    if (!match) return null;
 
-    let sql = `SELECT *
-               FROM ${quoteIdent(tableName)}`;
+    return {
+        sql: ` JOIN (SELECT rowid AS fts_rowid, rank AS fts_rank FROM ${quoteIdent(index.table)} WHERE ${quoteIdent(index.table)} MATCH ?) fts` +
+            ` ON fts.fts_rowid = ${quoteIdent(tableName)}.${quoteIdent("mal_id")}`,
+        params: [match],
+    };
+}
+
+/**
+ * Build a condition matching rows related to any of the given IDs through a relation.
+ *
+ * Uses the normalized relation table when the relation has one, otherwise searches the
+ * JSON array columns named by the relation's kinds (those missing from the table are skipped).
+ *
+ * @param relation Relation to search.
+ * @param tableName Target table name.
+ * @param colNames Known columns of the target table.
+ * @param ids Related MAL IDs, any of which satisfies the condition.
+ * @returns SQL fragment and its parameters, or null when the relation has nothing to search.
+ */
+function relatedToAny(relation: JikanRelation, tableName: string, colNames: Set<string>, ids: number[]): { sql: string, params: any[] } | null {
+    const idPlaceholders = ids.map(() => "?").join(", ");
+
+    if (relation.table) {
+        const kindPlaceholders = relation.kinds.map(() => "?").join(", ");
+        return {
+            sql: `EXISTS (SELECT 1 FROM ${quoteIdent(relation.table)} r WHERE r.${quoteIdent(relation.foreignKey!!)} = ${quoteIdent(tableName)}.${quoteIdent("mal_id")}` +
+                ` AND r.${quoteIdent(relation.column!!)} IN (${idPlaceholders}) AND r.${quoteIdent("kind")} IN (${kindPlaceholders}))`,
+            params: [...ids, ...relation.kinds],
+        };
+    }
+
+    const jsonCols = relation.kinds.filter(col => colNames.has(col));
+    if (!jsonCols.length) return null;
+
+    return {
+        sql: "(" + jsonCols.map(col =>
+            `EXISTS (SELECT 1 FROM json_each(${quoteIdent(col)}) WHERE json_extract(value, '$.mal_id') IN (${idPlaceholders}))`
+        ).join(" OR ") + ")",
+        params: jsonCols.flatMap(() => ids),
+    };
+}
+
+/**
+ * Build the conditions for an ID filter: one condition per ID when all must match, a single one when any may.
+ *
+ * @param filter ID filter to apply.
+ * @param relation Relation to search.
+ * @param tableName Target table name.
+ * @param colNames Known columns of the target table.
+ * @returns SQL fragments and their parameters, ANDed together by the caller.
+ */
+function relationConditions(filter: IdFilter, relation: JikanRelation, tableName: string, colNames: Set<string>): { sql: string, params: any[] }[] {
+    const groups = filter.match === "any" ? [filter.ids] : filter.ids.map(id => [id]);
+    return groups
+        .map(ids => relatedToAny(relation, tableName, colNames, ids))
+        .filter((c): c is { sql: string, params: any[] } => c !== null);
+}
+
+/**
+ * SQL comparison operators for the single-value filter operators.
+ */
+const COMPARISONS = {eq: "=", ne: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=", like: "LIKE"} as const;
+
+/**
+ * Compile a single operator condition into a SQL fragment.
+ *
+ * Range comparisons against numeric values on TEXT columns (e.g. `episodes`) cast the column to REAL
+ * so they compare numerically rather than lexically. Jikan enum values are translated via `toStoredValue`.
+ *
+ * @param condition The filter condition to compile.
+ * @param tableName Target table name.
+ * @param colType Declared type of the condition's column.
+ * @returns SQL fragment and its parameters.
+ */
+function compileCondition(condition: FilterCondition, tableName: string, colType: string): { sql: string, params: any[] } {
+    const col = quoteIdent(condition.column);
+    const stored = (v: any) => toStoredValue(tableName, condition.column, v);
+    const numericOnText = (v: any) => typeof v === "number" && colType.toUpperCase() === "TEXT";
+
+    switch (condition.operator) {
+        case "null":
+            return {sql: `${col} IS ${condition.value ? "" : "NOT "}NULL`, params: []};
+        case "in":
+        case "nin": {
+            const placeholders = condition.value.map(() => "?").join(", ");
+            const not = condition.operator === "nin" ? "NOT " : "";
+            return {sql: `${col} ${not}IN (${placeholders})`, params: condition.value.map(stored)};
+        }
+        case "between": {
+            const target = condition.value.some(numericOnText) ? `CAST(${col} AS REAL)` : col;
+            return {sql: `${target} BETWEEN ? AND ?`, params: [...condition.value]};
+        }
+        case "gt":
+        case "gte":
+        case "lt":
+        case "lte": {
+            const target = numericOnText(condition.value) ? `CAST(${col} AS REAL)` : col;
+            return {sql: `${target} ${COMPARISONS[condition.operator]} ?`, params: [condition.value]};
+        }
+        default:
+            return {sql: `${col} ${COMPARISONS[condition.operator]} ?`, params: [stored(condition.value)]};
+    }
+}
+
+/**
+ * Build the WHERE clause shared by `QueryToSQL` and `CountQueryToSQL`.
+ *
+ * Behavior:
+ * - Adds equality filters for `query.filters` keys that are known columns; Jikan enum values
+ *   (e.g. `type=tv`, `rating=pg13`) are translated to their stored form.
+ * - Adds operator conditions from `query.conditions` (eq, ne, gt, gte, lt, lte, like, between, in, nin, null) for known columns.
+ * - Adds Jikan search parameters: score bounds, date bounds, genre/producer/studio/licensor inclusion
+ *   (via relation tables where available) and genre exclusion, `sfw` and `letter` (on `title`, or `name` for untitled entities).
+ * - Restricts `search` matches through the table's FTS5 index (titles, plus synopsis when `searchSynopsis` is set),
+ *   or falls back to a `LIKE` search across text columns whose names include "title" (or start with "name") when there is no index.
+ * - Filter, condition and order parameters aliased by the table's Jikan config (e.g. clubs' `type`) use their stored column.
+ *
+ * @param query Query options.
+ * @param tableName Target table name.
+ * @param cols Column metadata of the target table.
+ * @returns The JOIN/WHERE clauses (empty when there are no conditions), their parameters, and whether rows carry an `fts_rank` relevance.
+ */
+function buildWhere(query: QueryOptions, tableName: string, cols: Record<string, any>[], keyset: { sql: string, params: any[] } | null = null): { sql: string, params: any[], ranked: boolean } {
+    const colNames = new Set(cols.map(c => c.name));
+    const colTypes = new Map<string, string>(cols.map(c => [c.name, c.type ?? ""]));
+    const config = getJikanConfig(tableName);
     const params: any[] = [];
     const filters: string[] = [];
 
     // Apply equality filters only for known columns
     if (query.filters) {
         Object.entries(query.filters).forEach(([key, value]) => {
-            if (value !== undefined && colNames.has(key)) {
-                filters.push(`${quoteIdent(key)} = ?`);
-                params.push(value);
+            const column = toColumn(tableName, key);
+            if (value !== undefined && colNames.has(column)) {
+                filters.push(`${quoteIdent(column)} = ?`);
+                params.push(toStoredValue(tableName, column, value));
             }
         });
     }
 
-    if (filters.length) sql += ` WHERE ${filters.join(" AND ")}`;
+    // Apply operator conditions only for known columns
+    query.conditions?.forEach(condition => {
+        const column = toColumn(tableName, condition.column);
+        if (!colNames.has(column)) return;
+        const compiled = compileCondition({...condition, column}, tableName, colTypes.get(column)!!);
+        filters.push(compiled.sql);
+        params.push(...compiled.params);
+    });
+
+    if (query.minScore !== undefined && colNames.has("score")) {
+        filters.push(`${quoteIdent("score")} >= ?`);
+        params.push(query.minScore);
+    }
+
+    if (query.maxScore !== undefined && colNames.has("score")) {
+        filters.push(`${quoteIdent("score")} <= ?`);
+        params.push(query.maxScore);
+    }
+
+    // Dates are stored as ISO strings; compare only as many characters as the (partial) date provides
+    if (config?.startDateColumn && query.startDate) {
+        filters.push(`substr(${quoteIdent(config.startDateColumn)}, 1, ?) >= ?`);
+        params.push(query.startDate.length, query.startDate);
+    }
+
+    if (config?.endDateColumn && query.endDate) {
+        filters.push(`substr(${quoteIdent(config.endDateColumn)}, 1, ?) <= ?`);
+        params.push(query.endDate.length, query.endDate);
+    }
+
+    if (config) {
+        const include: [IdFilter | undefined, string][] = [
+            [query.genres, "genres"],
+            [query.producers, "producers"],
+            [query.studios, "studios"],
+            [query.licensors, "licensors"],
+        ];
+
+        include.forEach(([filter, option]) => {
+            const relation = config.relations[option];
+            if (!filter || !relation) return;
+            relationConditions(filter, relation, tableName, colNames).forEach(c => {
+                filters.push(c.sql);
+                params.push(...c.params);
+            });
+        });
+
+        // Excluded genres must all be absent, i.e. none of them may match
+        const genres = config.relations["genres"];
+        if (query.genresExclude && genres) {
+            const c = relatedToAny(genres, tableName, colNames, query.genresExclude.ids);
+            if (c) {
+                filters.push(`NOT ${c.sql}`);
+                params.push(...c.params);
+            }
+        }
+    }
+
+    if (query.sfw) {
+        if (colNames.has("rating")) {
+            filters.push(`(${quoteIdent("rating")} IS NULL OR ${quoteIdent("rating")} != ?)`);
+            params.push("Rx - Hentai");
+        }
+        if (colNames.has("explicit_genres")) {
+            filters.push(`COALESCE(json_array_length(${quoteIdent("explicit_genres")}), 0) = 0`);
+        }
+    }
+
+    // Entities without titles (characters, clubs) are matched by name instead
+    const nameColumn = colNames.has("title") ? "title" : colNames.has("name") ? "name" : undefined;
+    if (query.letter && nameColumn) {
+        // The letter is a literal prefix, so LIKE wildcards in it must not match anything else
+        filters.push(`${quoteIdent(nameColumn)} LIKE ? ESCAPE '\\'`);
+        params.push(`${query.letter.replace(/[\\%_]/g, "\\$&")}%`);
+    }
 
-    // Apply LIKE search across "title"-like text columns
-    if (query.search) {
+    // Prefer the FTS5 index for search; fall back to LIKE across "title"-like (or "name"-like) text columns
+    let join: { sql: string, params: any[] } | null = null;
+    if (query.search && config?.search && tableExists(config.search.table, getDatabase())) {
+        join = searchJoin(config.search, tableName, query);
+    } else if (query.search) {
         const textCols = cols.filter(col =>
             ["TEXT", "VARCHAR", "CHAR", "CLOB"].includes(col.type.toUpperCase()) &&
-            col.name.includes("title")
+            (col.name.includes("title") || col.name.startsWith("name"))
         ).map(col => col.name);
 
         if (textCols.length) {
             const searchConditions = textCols.map(col => `${quoteIdent(col)} LIKE ?`).join(" OR ");
-            sql += filters.length ? " AND" : " WHERE";
-            sql += ` (${searchConditions})`;
+            filters.push(`(${searchConditions})`);
             params.push(...textCols.map(() => `%${query.search}%`));
         }
     }
 
-    // Safe ORDER BY for known columns only
-    if (query.orderBy && colNames.has(query.orderBy)) {
-        const dir = query.orderDirection?.toUpperCase() === "DESC" ? "DESC" : "ASC";
-        sql += ` ORDER BY ${quoteIdent(query.orderBy)} ${dir}`;
+    if (keyset) {
+        filters.push(keyset.sql);
+        params.push(...keyset.params);
     }
 
-    // LIMIT and OFFSET (OFFSET only when LIMIT is provided)
+    return {
+        sql: (join?.sql ?? "") + (filters.length ? ` WHERE ${filters.join(" AND ")}` : ""),
+        params: [...(join?.params ?? []), ...params],
+        ranked: join !== null,
+    };
+}
+
+/**
+ * Build the expression a list is ordered (and keyset-paged) by: the qualified column, cast to REAL for TEXT columns
+ * holding numbers so that e.g. `episodes` sorts 1, 2, 10 rather than 1, 10, 2.
+ *
+ * @param tableName Target table name.
+ * @param column The order column.
+ * @returns The SQL expression.
+ */
+function orderExpression(tableName: string, column: string): string {
+    const col = `${quoteIdent(tableName)}.${quoteIdent(column)}`;
+    return getJikanConfig(tableName)?.numericTextColumns?.includes(column) ? `CAST(${col} AS REAL)` : col;
+}
+
+/**
+ * Resolve the column and direction a query is ordered by.
+ *
+ * A `cursor` carries its own ordering (an unknown column falls back to `mal_id`); otherwise `order_by` is used when it is a
+ * known column, then `mal_id`. Full-text searches without `order_by` are ordered by relevance, which has no column.
+ *
+ * @param query Query options (uses `cursor`, `orderBy` and `orderDirection`).
+ * @param tableName Target table name.
+ * @param colNames Column names of the target table.
+ * @param ranked Whether the query joins the full-text index.
+ * @returns The order column and direction, or null for relevance ordering (or tables without `mal_id`).
+ */
+function resolveOrder(query: QueryOptions, tableName: string, colNames: Set<string>, ranked: boolean): { orderBy: string, direction: 'ASC' | 'DESC' } | null {
+    if (!colNames.has("mal_id")) return null;
+
+    const position = query.cursor ? DecodeCursor(query.cursor) : null;
+    if (position) {
+        return {orderBy: colNames.has(position.orderBy) ? position.orderBy : "mal_id", direction: position.direction};
+    }
+
+    const orderBy = query.orderBy ? toOrderColumn(tableName, query.orderBy) : undefined;
+    const direction = query.orderDirection?.toUpperCase() === "DESC" ? "DESC" : "ASC";
+    if (orderBy && colNames.has(orderBy)) return {orderBy, direction};
+    if (ranked) return null;
+    return {orderBy: "mal_id", direction};
+}
+
+/**
+ * Build the keyset condition selecting the rows after a cursor position.
+ *
+ * Rows are ordered by `(column, mal_id ASC)` with SQLite's NULL placement (first when ascending, last when descending),
+ * so the condition is `column > value OR (column = value AND mal_id > id)` with the comparison flipped for DESC
+ * and the NULL block included or skipped according to where it sorts.
+ *
+ * @param tableName Target table name.
+ * @param order The resolved ordering.
+ * @param position The decoded cursor.
+ * @returns The condition and its parameters.
+ */
+function keysetFilter(tableName: string, order: { orderBy: string, direction: 'ASC' | 'DESC' }, position: CursorPosition): { sql: string, params: any[] } {
+    const id = `${quoteIdent(tableName)}.${quoteIdent("mal_id")}`;
+    const col = orderExpression(tableName, order.orderBy);
+    const asc = order.direction === "ASC";
+
+    if (order.orderBy === "mal_id") {
+        return {sql: `${id} ${asc ? ">" : "<"} ?`, params: [position.id]};
+    }
+
+    if (position.value === null) {
+        return asc
+            ? {sql: `(${col} IS NOT NULL OR ${id} > ?)`, params: [position.id]}
+            : {sql: `(${col} IS NULL AND ${id} > ?)`, params: [position.id]};
+    }
+
+    const value = typeof position.value === "boolean" ? Number(position.value) : position.value;
+    return asc
+        ? {sql: `(${col} > ? OR (${col} = ? AND ${id} > ?))`, params: [value, value, position.id]}
+        : {sql: `(${col} < ? OR (${col} = ? AND ${id} > ?) OR ${col} IS NULL)`, params: [value, value, position.id]};
+}
+
+/**
+ * Build the SELECT list for the requested fields.
+ *
+ * @param query Query options (uses `fields` and `view`).
+ * @param tableName Target table name.
+ * @param cols Column metadata of the target table.
+ * @returns `table.*`, or the quoted columns covering the requested fields when any of them are known.
+ */
+function selectList(query: QueryOptions, tableName: string, cols: Record<string, any>[]): string {
+    const fields = toFieldPaths(tableName, query);
+    const selected = fields
+        ? cols.filter(col => fields.some(field => col.name === field || col.name.startsWith(`${field}.`)))
+        : [];
+
+    if (!selected.length) return `${quoteIdent(tableName)}.*`;
+    return selected.map(col => `${quoteIdent(tableName)}.${quoteIdent(col.name)}`).join(", ");
+}
+
+/**
+ * Build a SELECT query and parameters from the provided `QueryOptions`.
+ *
+ * Behavior:
+ * - SELECTs all columns from the given table, or only those covering the requested `fields` / `view` preset
+ *   (a dot-path selects the matching column or every column nested under it, e.g. `images` selects all image URLs).
+ * - Adds the filter and search conditions built by `buildWhere`.
+ * - Adds `ORDER BY` if `orderBy` is a known column (`start_date` / `end_date` map to the table's date columns); direction defaults to ASC and ties are broken by `mal_id`.
+ *   Without `orderBy`, full-text searches are ordered by relevance and other queries by `mal_id`.
+ * - With a `cursor`, orders by the cursor's column and only returns rows after its position (keyset paging).
+ * - Adds `LIMIT` and `OFFSET` (OFFSET only when LIMIT is present and no cursor is given).
+ *
+ * All dynamic values are parameterized; only identifiers are interpolated after validation/quoting.
+ *
+ * @param query Query options:
+ *   - `filters`: Record of column\->value equals comparisons.
+ *   - `conditions`: Operator conditions such as `score >= 8` or `year BETWEEN 2010 AND 2015`.
+ *   - `search`: Full-text search string (FTS5 over titles, or LIKE on title- or name-like columns without an index).
+ *   - `searchSynopsis`: Whether the full-text search also matches the synopsis.
+ *   - `minScore`, `maxScore`, `startDate`, `endDate`, `genres`, `genresExclude`, `producers`, `studios`, `licensors`, `sfw`, `letter`: Jikan search parameters.
+ *   - `fields`, `view`: Dot-path fields (or a named preset) limiting the selected columns.
+ *   - `orderBy`: Column name to sort by (must exist in the table).
+ *   - `orderDirection`: "ASC" or "DESC" (defaults to "ASC").
+ *   - `limit`: Max rows to return (non-negative integer).
+ *   - `page`: 1-based page index used to compute OFFSET when `limit` is set.
+ *   - `cursor`: Keyset cursor from `CursorAfter`; replaces `page` and the requested ordering.
+ * @param tableName Target table name.
+ * @returns Promise resolving to `{ sql, params }` ready for prepared execution.
+ */
+export async function QueryToSQL(query: QueryOptions, tableName: string): Promise<{ sql: string, params: any[] }> {
+    const db = getDatabase();
+    const cols = getColumns(tableName, db);
+    const colNames = new Set(cols.map(c => c.name));
+
+    const position = query.cursor ? DecodeCursor(query.cursor) : null;
+    const ranked = buildWhere(query, tableName, cols).ranked;
+    const order = resolveOrder(query, tableName, colNames, ranked);
+    const keyset = position && order ? keysetFilter(tableName, order, position) : null;
+
+    const where = buildWhere(query, tableName, cols, keyset);
+    let sql = `SELECT ${selectList(query, tableName, cols)}
+               FROM ${quoteIdent(tableName)}${where.sql}`;
+    const params: any[] = [...where.params];
+
+    // Safe ORDER BY for known columns only; full-text searches default to relevance, everything else to mal_id
+    if (order) {
+        // Break ties by mal_id so pages stay stable when many rows share a value
+        const tieBreak = order.orderBy !== "mal_id" ? `, ${quoteIdent(tableName)}.${quoteIdent("mal_id")} ASC` : "";
+        sql += ` ORDER BY ${orderExpression(tableName, order.orderBy)} ${order.direction}${tieBreak}`;
+    } else if (ranked) {
+        sql += ` ORDER BY fts.fts_rank ASC, ${quoteIdent(tableName)}.${quoteIdent("mal_id")} ASC`;
+    }
+
+    // LIMIT and OFFSET (OFFSET only when LIMIT is provided; a cursor replaces the OFFSET)
     if (isPositiveInt(query.limit)) {
         sql += ` LIMIT ?`;
         params.push(query.limit);
-        if (isPositiveInt(query.page)) {
+        if (isPositiveInt(query.page) && !keyset) {
             sql += ` OFFSET ?`;
             params.push((query.page!! - 1) * query.limit!!);
         }
@@ -107,52 +462,50 @@ export async function QueryToSQL(query: QueryOptions, tableName: string): Promis
 }
 
 /**
- * Build a SELECT COUNT(\*) query mirroring the same filters and search rules as `QueryToSQL`.
+ * Builds the `next_cursor` continuing a list after the given row, using the same ordering as `QueryToSQL`.
  *
- * Behavior:
- * - SELECTs `COUNT(*) AS count` from the given table.
- * - Applies the same validated equality filters as `QueryToSQL`.
- * - Applies the same title-like `LIKE` search conditions when `query.search` is present.
+ * Reads the stored value of the order expression for the row (rather than the mapped entity, whose defaults may differ
+ * from the stored NULLs, and as a number for numeric TEXT columns) and encodes it with the row's `mal_id`.
  *
- * @param query Query options (uses `filters` and `search`).
+ * @param query Query options the page was fetched with.
  * @param tableName Target table name.
- * @returns Promise resolving to `{ sql, params }` for counting matching rows.
+ * @param id `mal_id` of the last row of the page.
+ * @returns The cursor, or null when the list is ordered by search relevance (which has no stable keyset) or the row is gone.
  */
-export async function CountQueryToSQL(query: QueryOptions, tableName: string): Promise<{ sql: string, params: any[] }> {
+export async function CursorAfter(query: QueryOptions, tableName: string, id: number): Promise<string | null> {
     const db = getDatabase();
     const cols = getColumns(tableName, db);
     const colNames = new Set(cols.map(c => c.name));
 
-    let sql = `SELECT COUNT(*) as count
-               FROM ${quoteIdent(tableName)}`;
-    const params: any[] = [];
-    const filters: string[] = [];
+    const order = resolveOrder(query, tableName, colNames, buildWhere(query, tableName, cols).ranked);
+    if (!order) return null;
 
-    // Apply equality filters only for known columns
-    if (query.filters) {
-        Object.entries(query.filters).forEach(([key, value]) => {
-            if (value !== undefined && colNames.has(key)) {
-                filters.push(`${quoteIdent(key)} = ?`);
-                params.push(value);
-            }
-        });
-    }
+    const row: any = db.prepare(`SELECT ${orderExpression(tableName, order.orderBy)} AS value
+                                 FROM ${quoteIdent(tableName)}
+                                 WHERE ${quoteIdent("mal_id")} = ?`).get(id);
+    if (!row) return null;
 
-    if (filters.length) sql += ` WHERE ${filters.join(" AND ")}`;
+    return EncodeCursor({...order, value: row.value ?? null, id});
+}
 
-    if (query.search) {
-        const textCols = cols.filter(col =>
-            ["TEXT", "VARCHAR", "CHAR", "CLOB"].includes(col.type.toUpperCase()) &&
-            col.name.includes("title")
-        ).map(col => col.name);
+/**
+ * Build a SELECT COUNT(\*) query mirroring the same filters and search rules as `QueryToSQL`.
+ *
+ * Behavior:
+ * - SELECTs `COUNT(*) AS count` from the given table.
+ * - Applies the same conditions as `QueryToSQL` via `buildWhere`.
+ *
+ * @param query Query options (paging and ordering are ignored).
+ * @param tableName Target table name.
+ * @returns Promise resolving to `{ sql, params }` for counting matching rows.
+ */
+export async function CountQueryToSQL(query: QueryOptions, tableName: string): Promise<{ sql: string, params: any[] }> {
+    const db = getDatabase();
+    const cols = getColumns(tableName, db);
 
-        if (textCols.length) {
-            const searchConditions = textCols.map(col => `${quoteIdent(col)} LIKE ?`).join(" OR ");
-            sql += filters.length ? " AND" : " WHERE";
-            sql += ` (${searchConditions})`;
-            params.push(...textCols.map(() => `%${query.search}%`));
-        }
-    }
+    const where = buildWhere(query, tableName, cols);
+    const sql = `SELECT COUNT(*) as count
+               FROM ${quoteIdent(tableName)}${where.sql}`;
 
-    return {sql, params};
+    return {sql, params: where.params};
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+import {Database} from "bun:sqlite";
+import {Migration} from "../types/migration";
+
+/**
+ * Creates the genre/producer entity tables and the normalized anime relation tables, then backfills them from the
+ * JSON columns of anime rows stored before they existed.
+ *
+ * Genre-like entries (genres, explicit_genres, themes, demographics) share MAL's genre ID space and
+ * producer-like entries (producers, licensors, studios) share the producer ID space; the relation
+ * tables record which of those lists an entry came from in [kind].
+ */
+const migration: Migration = {
+    version: 2,
+    name: "create_anime_relations",
+
+    up(db: Database) {
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [genres] (
+              [mal_id] INT,
+              [type] TEXT,
+              [name] TEXT,
+              [url] TEXT,
+              PRIMARY KEY ([mal_id], [type])
+            );
+        `)
+
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [producers] (
+              [mal_id] INT PRIMARY KEY,
+              [type] TEXT,
+              [name] TEXT,
+              [url] TEXT
+            );
+        `)
+
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [anime_genres] (
+              [anime_id] INT,
+              [genre_id] INT,
+              [kind] TEXT,
+              PRIMARY KEY ([anime_id], [genre_id], [kind])
+            );
+        `)
+        db.run(`CREATE INDEX IF NOT EXISTS [anime_genres_genre_id] ON [anime_genres] ([genre_id], [kind]);`)
+
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [anime_producers] (
+              [anime_id] INT,
+              [producer_id] INT,
+              [kind] TEXT,
+              PRIMARY KEY ([anime_id], [producer_id], [kind])
+            );
+        `)
+        db.run(`CREATE INDEX IF NOT EXISTS [anime_producers_producer_id] ON [anime_producers] ([producer_id], [kind]);`)
+
+        backfill(db)
+    },
+
+    down(db: Database) {
+        db.run(`DROP TABLE IF EXISTS [anime_producers];`)
+        db.run(`DROP TABLE IF EXISTS [anime_genres];`)
+        db.run(`DROP TABLE IF EXISTS [producers];`)
+        db.run(`DROP TABLE IF EXISTS [genres];`)
+    },
+}
+
+/**
+ * Populates the relation tables from the JSON columns of stored anime rows.
+ * Only runs when the relation tables are empty but the anime table is not.
+ * @param {Database} db - The database being migrated.
+ */
+function backfill(db: Database) {
+    const relations: any = db.prepare("SELECT (SELECT COUNT(*) FROM anime_genres) + (SELECT COUNT(*) FROM anime_producers) as count").get()
+    const anime: any = db.prepare("SELECT COUNT(*) as count FROM anime").get()
+    if (relations.count > 0 || anime.count === 0) return
+
+    for (const kind of ["genres", "explicit_genres", "themes", "demographics"]) {
+        db.run(`
+            INSERT OR IGNORE INTO [genres] ([mal_id], [type], [name], [url])
+            SELECT json_extract(j.value, '$.mal_id'), COALESCE(json_extract(j.value, '$.type'), 'anime'),
+                   json_extract(j.value, '$.name'), json_extract(j.value, '$.url')
+            FROM [anime] a, json_each(a.[${kind}]) j;
+        `)
+        db.run(`
+            INSERT OR IGNORE INTO [anime_genres] ([anime_id], [genre_id], [kind])
+            SELECT a.[mal_id], json_extract(j.value, '$.mal_id'), '${kind}'
+            FROM [anime] a, json_each(a.[${kind}]) j;
+        `)
+    }
+
+    for (const kind of ["producers", "licensors", "studios"]) {
+        db.run(`
+            INSERT OR IGNORE INTO [producers] ([mal_id], [type], [name], [url])
+            SELECT json_extract(j.value, '$.mal_id'), json_extract(j.value, '$.type'),
+                   json_extract(j.value, '$.name'), json_extract(j.value, '$.url')
+            FROM [anime] a, json_each(a.[${kind}]) j;
+        `)
+        db.run(`
+            INSERT OR IGNORE INTO [anime_producers] ([anime_id], [producer_id], [kind])
+            SELECT a.[mal_id], json_extract(j.value, '$.mal_id'), '${kind}'
+            FROM [anime] a, json_each(a.[${kind}]) j;
+        `)
+    }
+}
+
+export default migration
\ No newline at end of file
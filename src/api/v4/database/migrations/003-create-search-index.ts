@@ -0,0 +1,80 @@
+import {Database} from "bun:sqlite";
+import {Migration} from "../types/migration";
+
+/**
+ * Tables that get an FTS5 title/synopsis index.
+ */
+const TABLES = ["anime", "manga"]
+
+/**
+ * Creates the FTS5 search indexes [anime_fts] and [manga_fts] plus the triggers keeping them in sync.
+ */
+const migration: Migration = {
+    version: 3,
+    name: "create_search_index",
+
+    up(db: Database) {
+        TABLES.forEach((tableName) => createSearchIndex(db, tableName))
+    },
+
+    down(db: Database) {
+        for (const tableName of TABLES) {
+            const fts = `${tableName}_fts`
+            db.run(`DROP TRIGGER IF EXISTS [${fts}_ai];`)
+            db.run(`DROP TRIGGER IF EXISTS [${fts}_ad];`)
+            db.run(`DROP TRIGGER IF EXISTS [${fts}_au];`)
+            db.run(`DROP TABLE IF EXISTS [${fts}];`)
+        }
+    },
+}
+
+/**
+ * Creates the FTS5 search index [<table>_fts] over titles and synopsis, plus the triggers keeping it in sync.
+ *
+ * The index rowid is the row's [mal_id]. JSON title columns are indexed as their plain title strings so
+ * JSON keys such as "type" do not become searchable. A newly created index is populated from existing rows.
+ * @param {Database} db - The database being migrated.
+ * @param {string} tableName - The content table (anime or manga).
+ */
+function createSearchIndex(db: Database, tableName: string) {
+    const fts = `${tableName}_fts`
+
+    const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(fts)
+
+    db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS [${fts}] USING fts5(
+          title, title_english, title_japanese, title_synonyms, titles, synopsis,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+    `)
+
+    const values = (row: string) => `
+        ${row}.[mal_id], ${row}.[title], ${row}.[title_english], ${row}.[title_japanese],
+        CASE WHEN json_valid(${row}.[title_synonyms]) THEN (SELECT group_concat(value, ' ') FROM json_each(${row}.[title_synonyms])) END,
+        CASE WHEN json_valid(${row}.[titles]) THEN (SELECT group_concat(json_extract(value, '$.title'), ' ') FROM json_each(${row}.[titles])) END,
+        ${row}.[synopsis]`
+    const columns = `rowid, title, title_english, title_japanese, title_synonyms, titles, synopsis`
+
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS [${fts}_ai] AFTER INSERT ON [${tableName}] BEGIN
+          INSERT INTO [${fts}] (${columns}) SELECT ${values("new")};
+        END;
+    `)
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS [${fts}_ad] AFTER DELETE ON [${tableName}] BEGIN
+          DELETE FROM [${fts}] WHERE rowid = old.[mal_id];
+        END;
+    `)
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS [${fts}_au] AFTER UPDATE ON [${tableName}] BEGIN
+          DELETE FROM [${fts}] WHERE rowid = old.[mal_id];
+          INSERT INTO [${fts}] (${columns}) SELECT ${values("new")};
+        END;
+    `)
+
+    if (!exists) {
+        db.run(`INSERT INTO [${fts}] (${columns}) SELECT ${values(`[${tableName}]`)} FROM [${tableName}];`)
+    }
+}
+
+export default migration
\ No newline at end of file
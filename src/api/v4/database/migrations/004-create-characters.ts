@@ -0,0 +1,46 @@
+import {Database} from "bun:sqlite";
+import {Migration} from "../types/migration";
+
+/**
+ * Creates the characters table and the anime-character relation table.
+ */
+const migration: Migration = {
+    version: 4,
+    name: "create_characters",
+
+    up(db: Database) {
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [characters] (
+              [mal_id] INT PRIMARY KEY,
+              [url] TEXT,
+              [images.jpg.image_url] TEXT,
+              [images.webp.image_url] TEXT,
+              [images.webp.small_image_url] TEXT,
+              [name] TEXT,
+              [name_kanji] TEXT,
+              [nicknames] TEXT,
+              [favorites] INT,
+              [about] TEXT
+            );
+        `)
+
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [anime_characters] (
+              [anime_id] INT,
+              [character_id] INT,
+              [role] TEXT,
+              [favorites] INT NULL,
+              [voice_actors] TEXT,
+              PRIMARY KEY ([anime_id], [character_id])
+            );
+        `)
+        db.run(`CREATE INDEX IF NOT EXISTS [anime_characters_character_id] ON [anime_characters] ([character_id]);`)
+    },
+
+    down(db: Database) {
+        db.run(`DROP TABLE IF EXISTS [anime_characters];`)
+        db.run(`DROP TABLE IF EXISTS [characters];`)
+    },
+}
+
+export default migration
\ No newline at end of file
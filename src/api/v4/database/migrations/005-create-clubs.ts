@@ -0,0 +1,32 @@
+import {Database} from "bun:sqlite";
+import {Migration} from "../types/migration";
+
+/**
+ * Creates the clubs table.
+ * Category and access compare case-insensitively so Jikan's lower-case search values match stored ones.
+ */
+const migration: Migration = {
+    version: 5,
+    name: "create_clubs",
+
+    up(db: Database) {
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [clubs] (
+              [mal_id] INT PRIMARY KEY,
+              [url] TEXT,
+              [images.jpg.image_url] TEXT,
+              [name] TEXT,
+              [members] INT,
+              [category] TEXT COLLATE NOCASE,
+              [created] TEXT,
+              [access] TEXT COLLATE NOCASE
+            );
+        `)
+    },
+
+    down(db: Database) {
+        db.run(`DROP TABLE IF EXISTS [clubs];`)
+    },
+}
+
+export default migration
\ No newline at end of file
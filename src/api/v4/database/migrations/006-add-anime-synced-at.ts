@@ -0,0 +1,23 @@
+import {Database} from "bun:sqlite";
+import {Migration} from "../types/migration";
+import {addColumn, dropColumn} from "../helpers/column";
+
+/**
+ * Adds [anime].[synced_at] for freshness tracking; rows stored before it count as stale until refreshed.
+ */
+const migration: Migration = {
+    version: 6,
+    name: "add_anime_synced_at",
+
+    up(db: Database) {
+        addColumn("anime", "synced_at TEXT NULL", db)
+        db.run(`CREATE INDEX IF NOT EXISTS [anime_synced_at] ON [anime] ([synced_at]);`)
+    },
+
+    down(db: Database) {
+        db.run(`DROP INDEX IF EXISTS [anime_synced_at];`)
+        dropColumn("anime", "synced_at", db)
+    },
+}
+
+export default migration
\ No newline at end of file
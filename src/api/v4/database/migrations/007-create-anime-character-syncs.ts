@@ -0,0 +1,26 @@
+import {Database} from "bun:sqlite";
+import {Migration} from "../types/migration";
+
+/**
+ * Creates [anime_character_syncs], recording which anime had their character list fetched, so an anime without any
+ * characters is told apart from one never fetched.
+ */
+const migration: Migration = {
+    version: 7,
+    name: "create_anime_character_syncs",
+
+    up(db: Database) {
+        db.run(`
+            CREATE TABLE IF NOT EXISTS [anime_character_syncs] (
+              [anime_id] INT PRIMARY KEY,
+              [synced_at] TEXT
+            );
+        `)
+    },
+
+    down(db: Database) {
+        db.run(`DROP TABLE IF EXISTS [anime_character_syncs];`)
+    },
+}
+
+export default migration
\ No newline at end of file
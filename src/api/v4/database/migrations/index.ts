@@ -0,0 +1,22 @@
+import {Migration} from "../types/migration";
+import createAnimeManga from "./001-create-anime-manga";
+import createAnimeRelations from "./002-create-anime-relations";
+import createSearchIndex from "./003-create-search-index";
+import createCharacters from "./004-create-characters";
+import createClubs from "./005-create-clubs";
+import addAnimeSyncedAt from "./006-add-anime-synced-at";
+import createAnimeCharacterSyncs from "./007-create-anime-character-syncs";
+
+/**
+ * All schema migrations, in version order. Append new migrations here with the next version number;
+ * never renumber or edit a migration that has been released.
+ */
+export const MIGRATIONS: Migration[] = [
+    createAnimeManga,
+    createAnimeRelations,
+    createSearchIndex,
+    createCharacters,
+    createClubs,
+    addAnimeSyncedAt,
+    createAnimeCharacterSyncs,
+]
\ No newline at end of file
@@ -0,0 +1,100 @@
+import {Database} from "bun:sqlite";
+import {Migration, MigrationStatus} from "./types/migration";
+import {MIGRATIONS} from "./migrations";
+
+/**
+ * Applies and reverts versioned schema migrations, tracking applied versions in [schema_migrations].
+ *
+ * Each migration runs in its own transaction together with its bookkeeping row, so a failing migration leaves
+ * neither a partial schema change nor a version record behind.
+ */
+export class Migrator {
+    private db: Database;
+    private migrations: Migration[];
+
+    /**
+     * Creates a new Migrator and ensures the [schema_migrations] table exists.
+     * @param {Database} db - The Bun SQLite database instance.
+     * @param {Migration[]} migrations - Known migrations (defaults to the application's migrations).
+     */
+    constructor(db: Database, migrations: Migration[] = MIGRATIONS) {
+        this.db = db;
+        this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+        this.db.run(`
+            CREATE TABLE IF NOT EXISTS [schema_migrations] (
+              [version] INT PRIMARY KEY,
+              [name] TEXT,
+              [applied_at] TEXT
+            );
+        `);
+    }
+
+    /**
+     * Lists every known migration with its applied timestamp, followed by applied versions this build does not know.
+     * @returns {MigrationStatus[]} Migration states in version order.
+     */
+    status(): MigrationStatus[] {
+        const applied = this.applied();
+        const known = this.migrations.map((m) => ({version: m.version, name: m.name, applied_at: applied.get(m.version)?.applied_at ?? null}));
+        const unknown = Array.from(applied.values()).filter((row) => !this.migrations.some((m) => m.version === row.version));
+
+        return [...known, ...unknown].sort((a, b) => a.version - b.version);
+    }
+
+    /**
+     * Applies pending migrations in version order.
+     * @param {number} [target] - Highest version to apply; all pending migrations when omitted.
+     * @returns {Migration[]} The migrations applied, in order.
+     */
+    up(target?: number): Migration[] {
+        const applied = this.applied();
+        const pending = this.migrations.filter((m) => !applied.has(m.version) && (target === undefined || m.version <= target));
+
+        for (const migration of pending) {
+            this.db.transaction(() => {
+                migration.up(this.db);
+                this.db.prepare("INSERT INTO [schema_migrations] ([version], [name], [applied_at]) VALUES (?, ?, ?)")
+                    .run(migration.version, migration.name, new Date().toISOString());
+            })();
+        }
+
+        return pending;
+    }
+
+    /**
+     * Reverts the most recently applied migrations, newest first.
+     * @param {number} [steps=1] - Number of migrations to revert.
+     * @returns {Migration[]} The migrations reverted, in order.
+     * @throws {Error} If an applied version has no migration in this build (it cannot be reverted).
+     */
+    down(steps: number = 1): Migration[] {
+        const versions = Array.from(this.applied().keys()).sort((a, b) => b - a).slice(0, steps);
+        const reverted: Migration[] = [];
+
+        for (const version of versions) {
+            const migration = this.migrations.find((m) => m.version === version);
+            if (!migration) {
+                throw new Error(`Migration ${version} is applied but unknown to this build`);
+            }
+
+            this.db.transaction(() => {
+                migration.down(this.db);
+                this.db.prepare("DELETE FROM [schema_migrations] WHERE [version] = ?").run(version);
+            })();
+            reverted.push(migration);
+        }
+
+        return reverted;
+    }
+
+    /**
+     * Reads the applied migrations keyed by version.
+     * @returns {Map<number, MigrationStatus>} Applied migrations.
+     * @private
+     */
+    private applied(): Map<number, MigrationStatus> {
+        const rows = this.db.prepare("SELECT [version], [name], [applied_at] FROM [schema_migrations]").all() as MigrationStatus[];
+        return new Map(rows.map((row) => [row.version, row]));
+    }
+}
\ No newline at end of file
@@ -3,6 +3,8 @@ import {Database} from "bun:sqlite";
      import {Anime} from "../../types";
      import "../helpers/parser/anime"
      import {CountQueryToSQL, QueryToSQL} from "../helpers/query-to-sql";
+     import {FreshnessPolicy} from "../../utils/freshness";
+     import {SeasonArchive} from "../../types/season";
 
      /**
       * Repository for CRUD operations on Anime entities backed by SQLite.
@@ -42,6 +44,93 @@ import {Database} from "bun:sqlite";
              return Promise.resolve(result.count as number);
          }
 
+         /**
+          * Lists the MAL IDs of all stored anime in ascending order.
+          *
+          * @return {Promise<number[]>} The stored MAL IDs.
+          */
+         findAllIds(): Promise<number[]> {
+             const stmt = this.db.prepare("SELECT mal_id FROM anime ORDER BY mal_id");
+             return Promise.resolve(stmt.all().map((row: any) => row.mal_id as number));
+         }
+
+         /**
+          * Returns when an anime was last written from upstream data.
+          *
+          * @param {number} id - The MAL ID.
+          * @return {Promise<string | null>} The ISO timestamp, or null if the anime is missing or was never tracked.
+          */
+         findSyncedAt(id: number): Promise<string | null> {
+             const stmt = this.db.prepare("SELECT synced_at FROM anime WHERE mal_id = ?");
+             const row: any = stmt.get(id);
+             return Promise.resolve(row?.synced_at ?? null);
+         }
+
+         /**
+          * Records a refresh attempt that did not update the row (upstream 404 or error) as its last sync, so it is not
+          * retried before its freshness window elapses again.
+          *
+          * @param {number} id - The MAL ID.
+          * @return {Promise<void>}
+          */
+         recordSyncAttempt(id: number): Promise<void> {
+             this.markSynced(id);
+             return Promise.resolve();
+         }
+
+         /**
+          * Lists the MAL IDs of stored anime that are due for a refresh under the given freshness policy.
+          *
+          * Classifies rows as airing, upcoming or finished (like `ToAiringState`) and selects those synced before the
+          * state's cutoff or never tracked. Airing entries come first, then upcoming, then finished; oldest syncs first within each.
+          *
+          * @param {FreshnessPolicy} policy - Maximum age in seconds per airing state.
+          * @return {Promise<number[]>} The stale MAL IDs in refresh priority order.
+          */
+         findStaleIds(policy: FreshnessPolicy): Promise<number[]> {
+             const cutoff = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+             const state = `CASE
+                 WHEN [airing] = 1 OR [status] = 'Currently Airing' THEN 0
+                 WHEN [status] = 'Not yet aired' THEN 1
+                 ELSE 2 END`;
+
+             const stmt = this.db.prepare(`
+                 SELECT [mal_id] FROM [anime]
+                 WHERE [synced_at] IS NULL
+                    OR [synced_at] < (CASE ${state} WHEN 0 THEN ? WHEN 1 THEN ? ELSE ? END)
+                 ORDER BY ${state}, [synced_at] IS NOT NULL, [synced_at] ASC, [mal_id] ASC
+             `);
+             const rows = stmt.all(cutoff(policy.airing), cutoff(policy.upcoming), cutoff(policy.finished));
+             return Promise.resolve(rows.map((row: any) => row.mal_id as number));
+         }
+
+         /**
+          * Lists the seasons that have stored anime, grouped by year.
+          *
+          * Years are listed newest first, each with its seasons in calendar order (winter to fall).
+          *
+          * @return {Promise<SeasonArchive[]>} The years and their seasons; empty if no anime has a season.
+          */
+         findSeasons(): Promise<SeasonArchive[]> {
+             const stmt = this.db.prepare(`
+                 SELECT [year], [season] FROM [anime]
+                 WHERE [year] IS NOT NULL AND [season] IN ('winter', 'spring', 'summer', 'fall')
+                 GROUP BY [year], [season]
+                 ORDER BY [year] DESC, CASE [season] WHEN 'winter' THEN 0 WHEN 'spring' THEN 1 WHEN 'summer' THEN 2 ELSE 3 END
+             `);
+
+             const archive: SeasonArchive[] = [];
+             for (const row of stmt.all() as any[]) {
+                 let entry = archive[archive.length - 1];
+                 if (!entry || entry.year !== row.year) {
+                     entry = {year: row.year, seasons: []};
+                     archive.push(entry);
+                 }
+                 entry.seasons.push(row.season);
+             }
+             return Promise.resolve(archive);
+         }
+
          /**
           * Finds a single Anime by MAL ID.
           *
@@ -62,7 +151,7 @@ import {Database} from "bun:sqlite";
          /**
           * Inserts a new Anime row.
           *
-          * Builds an INSERT statement from the Anime instance, runs it against the DB, and returns the original entity.
+          * Builds an INSERT statement from the Anime instance, runs it together with the genre/producer relation rows in one transaction, records the sync time, and returns the original entity.
           *
           * @param {Anime} item - The Anime entity to persist.
           * @returns {Promise<Anime>} The same Anime instance.
@@ -72,22 +161,29 @@ import {Database} from "bun:sqlite";
              let sqlInsert = item.toAnimeInsertSQL();
              if (!sqlInsert) throw new Error("Invalid Anime object");
 
-             const stmt = this.db.prepare(sqlInsert.sql);
-             stmt.run(...sqlInsert.params);
+             this.db.transaction(() => {
+                 const stmt = this.db.prepare(sqlInsert.sql);
+                 stmt.run(...sqlInsert.params);
+                 this.writeRelations(item);
+                 this.markSynced(item.mal_id);
+             })();
              return Promise.resolve(item);
          }
 
          /**
           * Deletes an Anime by MAL ID.
           *
-          * Executes a DELETE statement by mal_id and returns whether any row was affected.
+          * Executes a DELETE statement by mal_id (removing its relation rows as well) and returns whether any anime row was affected.
           *
           * @param {number} id - The MAL ID.
           * @returns {Promise<boolean>} True if a row was removed.
           */
          delete(id: number): Promise<boolean> {
-             const stmt = this.db.prepare("DELETE FROM anime WHERE mal_id = ?");
-             const result = stmt.run(id);
+             const result = this.db.transaction(() => {
+                 this.db.prepare("DELETE FROM anime_genres WHERE anime_id = ?").run(id);
+                 this.db.prepare("DELETE FROM anime_producers WHERE anime_id = ?").run(id);
+                 return this.db.prepare("DELETE FROM anime WHERE mal_id = ?").run(id);
+             })();
              return Promise.resolve(result.changes > 0);
          }
 
@@ -129,7 +225,7 @@ import {Database} from "bun:sqlite";
          /**
           * Updates an Anime by MAL ID.
           *
-          * Builds an UPDATE statement from the partial entity; executes it and returns the fresh row via findById when rows changed, otherwise null.
+          * Builds an UPDATE statement from the partial entity; executes it (replacing the relation rows and recording the sync time) and returns the fresh row via findById when rows changed, otherwise null.
           *
           * @param {number} id - The MAL ID.
           * @param {Partial<Anime>} item - Partial fields to update.
@@ -140,12 +236,43 @@ import {Database} from "bun:sqlite";
              let sqlUpdate = item.toAnimeUpdateSQL();
              if (!sqlUpdate) throw new Error("Invalid Anime object for update");
 
-             const stmt = this.db.prepare(sqlUpdate.sql);
-             const result = stmt.run(...sqlUpdate.params);
+             const result = this.db.transaction(() => {
+                 const stmt = this.db.prepare(sqlUpdate.sql);
+                 const result = stmt.run(...sqlUpdate.params);
+                 if (result.changes > 0) {
+                     this.writeRelations({...item, mal_id: id});
+                     this.markSynced(id);
+                 }
+                 return result;
+             })();
              if (result.changes === 0) {
                  return Promise.resolve(null);
              }
 
              return Promise.resolve(this.findById(id));
          }
+
+         /**
+          * Records the current time as the anime's last sync from upstream.
+          * Must be called inside a transaction together with the anime row write (or on its own for a failed refresh).
+          *
+          * @param {number} id - The MAL ID.
+          * @private
+          */
+         private markSynced(id: number): void {
+             this.db.prepare("UPDATE anime SET synced_at = ? WHERE mal_id = ?").run(new Date().toISOString(), id);
+         }
+
+         /**
+          * Replaces the genre/producer relation rows for an Anime.
+          * Must be called inside a transaction together with the anime row write.
+          *
+          * @param {Partial<Anime>} item - The Anime whose relations to write.
+          * @private
+          */
+         private writeRelations(item: Partial<Anime>): void {
+             for (const statement of item.toAnimeRelationSQL()) {
+                 this.db.prepare(statement.sql).run(...statement.params);
+             }
+         }
      }
\ No newline at end of file
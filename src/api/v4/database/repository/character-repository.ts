@@ -0,0 +1,230 @@
+import {Database} from "bun:sqlite";
+import {QueryOptions, Repository} from "../types/repository";
+import {AnimeCharacter, Character} from "../../types";
+import "../helpers/parser/character"
+import {CountQueryToSQL, QueryToSQL} from "../helpers/query-to-sql";
+
+/**
+ * Repository for CRUD operations on Character entities backed by SQLite.
+ */
+export class CharacterRepository implements Repository<Character> {
+    private db: Database;
+
+    /**
+     * Creates a new CharacterRepository.
+     * @param {Database} db - The Bun SQLite database instance.
+     */
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    /**
+     * Counts the number of records in the database that match the given query options.
+     *
+     * @param {QueryOptions} options - The options object specifying the criteria for counting records.
+     * @return {Promise<number>} The total count of records matching the query.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let query = await CountQueryToSQL(options, "characters");
+        const stmt = this.db.prepare(query.sql);
+        const result: any = stmt.get(...query.params);
+        return result.count as number;
+    }
+
+    /**
+     * Counts all entries in the "characters" table of the database.
+     *
+     * @return {Promise<number>} The total number of entries in the "characters" table.
+     */
+    countAll(): Promise<number> {
+        const stmt = this.db.prepare("SELECT COUNT(*) as count FROM characters");
+        const result: any = stmt.get();
+        return Promise.resolve(result.count as number);
+    }
+
+    /**
+     * Finds a single Character by MAL ID.
+     *
+     * Prepares and executes a SELECT query by mal_id; maps the row to a Character via toCharacter(); returns null if not found.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<Character | null>} The Character if found, otherwise null.
+     */
+    findById(id: number): Promise<Character | null> {
+        const stmt = this.db.prepare("SELECT * FROM characters WHERE mal_id = ?");
+        const character = stmt.get(id);
+
+        if (!character) return Promise.resolve(null);
+
+        return Promise.resolve(character!!.toCharacter());
+    }
+
+    /**
+     * Inserts a new Character row.
+     *
+     * Builds an INSERT statement from the Character instance, runs it against the DB, and returns the original entity.
+     *
+     * @param {Character} item - The Character entity to persist.
+     * @returns {Promise<Character>} The same Character instance.
+     * @throws {Error} If the Character cannot produce a valid insert SQL.
+     */
+    create(item: Character): Promise<Character> {
+        let sqlInsert = item.toCharacterInsertSQL();
+        if (!sqlInsert) throw new Error("Invalid Character object");
+
+        const stmt = this.db.prepare(sqlInsert.sql);
+        stmt.run(...sqlInsert.params);
+        return Promise.resolve(item);
+    }
+
+    /**
+     * Deletes a Character by MAL ID.
+     *
+     * Executes a DELETE statement by mal_id (removing its anime links as well) and returns whether any character row was affected.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<boolean>} True if a row was removed.
+     */
+    delete(id: number): Promise<boolean> {
+        const result = this.db.transaction(() => {
+            this.db.prepare("DELETE FROM anime_characters WHERE character_id = ?").run(id);
+            return this.db.prepare("DELETE FROM characters WHERE mal_id = ?").run(id);
+        })();
+        return Promise.resolve(result.changes > 0);
+    }
+
+    /**
+     * Retrieves all Character rows.
+     *
+     * Runs a SELECT * query; converts each row with toCharacter(); returns an empty array when no rows exist.
+     *
+     * @returns {Promise<Character[]>} Array of Character entities; empty if none.
+     */
+    findAll(): Promise<Character[]> {
+        const stmt = this.db.prepare("SELECT * FROM characters");
+        const characterList = stmt.all();
+        if (characterList.length === 0) {
+            return Promise.resolve([]);
+        }
+
+        return Promise.resolve(characterList.map((character: any) => character!!.toCharacter()));
+    }
+
+    /**
+     * Searches for and retrieves a list of characters based on the provided query options.
+     *
+     * @param {QueryOptions} options - The query options for filtering character results.
+     * @return {Promise<Character[]>} An array of character objects matching the query. Returns an empty array if no matches are found.
+     */
+    async findByQuery(options: QueryOptions): Promise<Character[]> {
+        let query = await QueryToSQL(options, "characters");
+        const stmt = this.db.prepare(query.sql);
+        const result: any = stmt.all(...query.params);
+
+        if (result.length === 0) {
+            return [];
+        }
+
+        return result.map((character: any) => character!!.toCharacter());
+    }
+
+    /**
+     * Updates a Character by MAL ID.
+     *
+     * Builds an UPDATE statement from the partial entity; executes it and returns the fresh row via findById when rows changed, otherwise null.
+     *
+     * @param {number} id - The MAL ID.
+     * @param {Partial<Character>} item - Partial fields to update.
+     * @returns {Promise<Character | null>} Updated Character or null if no rows changed.
+     * @throws {Error} If the Character cannot produce a valid update SQL.
+     */
+    update(id: number, item: Partial<Character>): Promise<Character | null> {
+        let sqlUpdate = item.toCharacterUpdateSQL();
+        if (!sqlUpdate) throw new Error("Invalid Character object for update");
+
+        const stmt = this.db.prepare(sqlUpdate.sql);
+        const result = stmt.run(...sqlUpdate.params);
+        if (result.changes === 0) {
+            return Promise.resolve(null);
+        }
+
+        return Promise.resolve(this.findById(id));
+    }
+
+    /**
+     * Lists the characters linked to an anime, with their role and voice actors.
+     *
+     * Joins [anime_characters] with [characters] and maps each row via toAnimeCharacter(); main characters come first.
+     * An anime without rows counts as known only if its list was fetched (recorded in [anime_character_syncs]).
+     *
+     * @param {number} animeId - The anime MAL ID.
+     * @returns {Promise<AnimeCharacter[] | null>} The anime's characters (empty if it has none), or null if its list was never fetched.
+     */
+    findByAnimeId(animeId: number): Promise<AnimeCharacter[] | null> {
+        const stmt = this.db.prepare(`
+            SELECT c.*, ac.[character_id], ac.[role], ac.[favorites] as role_favorites, ac.[voice_actors]
+            FROM [anime_characters] ac
+            JOIN [characters] c ON c.[mal_id] = ac.[character_id]
+            WHERE ac.[anime_id] = ?
+            ORDER BY ac.[role] = 'Main' DESC, ac.[favorites] DESC, ac.[character_id] ASC
+        `);
+        const rows = stmt.all(animeId);
+        if (rows.length === 0 && !this.db.prepare("SELECT 1 FROM anime_character_syncs WHERE anime_id = ?").get(animeId)) {
+            return Promise.resolve(null);
+        }
+
+        return Promise.resolve(rows.map((row: any) => row!!.toAnimeCharacter()));
+    }
+
+    /**
+     * Replaces the characters linked to an anime.
+     *
+     * Inserts a minimal [characters] row for characters not stored yet (existing full records are left untouched),
+     * then rewrites the anime's [anime_characters] rows and records the fetch in [anime_character_syncs], all in one transaction.
+     *
+     * @param {number} animeId - The anime MAL ID.
+     * @param {AnimeCharacter[]} entries - The anime's characters as returned by Jikan's /anime/{id}/characters.
+     * @returns {Promise<AnimeCharacter[]>} The same entries.
+     */
+    saveAnimeCharacters(animeId: number, entries: AnimeCharacter[]): Promise<AnimeCharacter[]> {
+        const insertCharacter = this.db.prepare(`
+            INSERT OR IGNORE INTO [characters] ([mal_id], [url], [images.jpg.image_url], [images.webp.image_url], [images.webp.small_image_url], [name])
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+        const insertLink = this.db.prepare(`
+            INSERT OR REPLACE INTO [anime_characters] ([anime_id], [character_id], [role], [favorites], [voice_actors])
+            VALUES (?, ?, ?, ?, ?)
+        `);
+
+        this.db.transaction(() => {
+            this.db.prepare("DELETE FROM anime_characters WHERE anime_id = ?").run(animeId);
+            this.db.prepare("INSERT OR REPLACE INTO anime_character_syncs (anime_id, synced_at) VALUES (?, ?)").run(animeId, new Date().toISOString());
+            for (const entry of entries) {
+                const c = entry.character;
+                if (c?.mal_id == null) continue;
+                insertCharacter.run(
+                    c.mal_id,
+                    c.url ?? null,
+                    c.images?.jpg?.image_url ?? null,
+                    c.images?.webp?.image_url ?? null,
+                    c.images?.webp?.small_image_url ?? null,
+                    c.name ?? null,
+                );
+                insertLink.run(animeId, c.mal_id, entry.role ?? null, entry.favorites ?? null, JSON.stringify(entry.voice_actors ?? []));
+            }
+        })();
+
+        return Promise.resolve(entries);
+    }
+
+    /**
+     * Checks whether a stored character has its full record (as opposed to the minimal row written by saveAnimeCharacters).
+     *
+     * @param {number} id - The character MAL ID.
+     * @returns {Promise<boolean>} True if the character is stored with full details.
+     */
+    hasDetails(id: number): Promise<boolean> {
+        const stmt = this.db.prepare("SELECT 1 FROM characters WHERE mal_id = ? AND favorites IS NOT NULL");
+        return Promise.resolve(stmt.get(id) !== null);
+    }
+}
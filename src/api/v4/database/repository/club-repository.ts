@@ -0,0 +1,151 @@
+import {Database} from "bun:sqlite";
+import {QueryOptions, Repository} from "../types/repository";
+import {Club} from "../../types";
+import "../helpers/parser/club"
+import {CountQueryToSQL, QueryToSQL} from "../helpers/query-to-sql";
+
+/**
+ * Repository for CRUD operations on Club entities backed by SQLite.
+ */
+export class ClubRepository implements Repository<Club> {
+    private db: Database;
+
+    /**
+     * Creates a new ClubRepository.
+     * @param {Database} db - The Bun SQLite database instance.
+     */
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    /**
+     * Counts the number of records in the database that match the given query options.
+     *
+     * @param {QueryOptions} options - The options object specifying the criteria for counting records.
+     * @return {Promise<number>} The total count of records matching the query.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let query = await CountQueryToSQL(options, "clubs");
+        const stmt = this.db.prepare(query.sql);
+        const result: any = stmt.get(...query.params);
+        return result.count as number;
+    }
+
+    /**
+     * Counts all entries in the "clubs" table of the database.
+     *
+     * @return {Promise<number>} The total number of entries in the "clubs" table.
+     */
+    countAll(): Promise<number> {
+        const stmt = this.db.prepare("SELECT COUNT(*) as count FROM clubs");
+        const result: any = stmt.get();
+        return Promise.resolve(result.count as number);
+    }
+
+    /**
+     * Finds a single Club by MAL ID.
+     *
+     * Prepares and executes a SELECT query by mal_id; maps the row to a Club via toClub(); returns null if not found.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<Club | null>} The Club if found, otherwise null.
+     */
+    findById(id: number): Promise<Club | null> {
+        const stmt = this.db.prepare("SELECT * FROM clubs WHERE mal_id = ?");
+        const club = stmt.get(id);
+
+        if (!club) return Promise.resolve(null);
+
+        return Promise.resolve(club!!.toClub());
+    }
+
+    /**
+     * Inserts a new Club row.
+     *
+     * Builds an INSERT statement from the Club instance, runs it against the DB, and returns the original entity.
+     *
+     * @param {Club} item - The Club entity to persist.
+     * @returns {Promise<Club>} The same Club instance.
+     * @throws {Error} If the Club cannot produce a valid insert SQL.
+     */
+    create(item: Club): Promise<Club> {
+        let sqlInsert = item.toClubInsertSQL();
+        if (!sqlInsert) throw new Error("Invalid Club object");
+
+        const stmt = this.db.prepare(sqlInsert.sql);
+        stmt.run(...sqlInsert.params);
+        return Promise.resolve(item);
+    }
+
+    /**
+     * Deletes a Club by MAL ID.
+     *
+     * Executes a DELETE statement by mal_id and returns whether any row was affected.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<boolean>} True if a row was removed.
+     */
+    delete(id: number): Promise<boolean> {
+        const stmt = this.db.prepare("DELETE FROM clubs WHERE mal_id = ?");
+        const result = stmt.run(id);
+        return Promise.resolve(result.changes > 0);
+    }
+
+    /**
+     * Retrieves all Club rows.
+     *
+     * Runs a SELECT * query; converts each row with toClub(); returns an empty array when no rows exist.
+     *
+     * @returns {Promise<Club[]>} Array of Club entities; empty if none.
+     */
+    findAll(): Promise<Club[]> {
+        const stmt = this.db.prepare("SELECT * FROM clubs");
+        const clubList = stmt.all();
+        if (clubList.length === 0) {
+            return Promise.resolve([]);
+        }
+
+        return Promise.resolve(clubList.map((club: any) => club!!.toClub()));
+    }
+
+    /**
+     * Searches for and retrieves a list of clubs based on the provided query options.
+     *
+     * @param {QueryOptions} options - The query options for filtering club results.
+     * @return {Promise<Club[]>} An array of club objects matching the query. Returns an empty array if no matches are found.
+     */
+    async findByQuery(options: QueryOptions): Promise<Club[]> {
+        let query = await QueryToSQL(options, "clubs");
+        const stmt = this.db.prepare(query.sql);
+        const result: any = stmt.all(...query.params);
+
+        if (result.length === 0) {
+            return [];
+        }
+
+        return result.map((club: any) => club!!.toClub());
+    }
+
+    /**
+     * Updates a Club by MAL ID.
+     *
+     * Builds an UPDATE statement from the partial entity; executes it and returns the fresh row via findById when rows changed, otherwise null.
+     *
+     * @param {number} id - The MAL ID.
+     * @param {Partial<Club>} item - Partial fields to update.
+     * @returns {Promise<Club | null>} Updated Club or null if no rows changed.
+     * @throws {Error} If the Club cannot produce a valid update SQL.
+     */
+    update(id: number, item: Partial<Club>): Promise<Club | null> {
+        let sqlUpdate = item.toClubUpdateSQL();
+        if (!sqlUpdate) throw new Error("Invalid Club object for update");
+
+        const stmt = this.db.prepare(sqlUpdate.sql);
+        const result = stmt.run(...sqlUpdate.params);
+        if (result.changes === 0) {
+            return Promise.resolve(null);
+        }
+
+        return Promise.resolve(this.findById(id));
+    }
+}
\ No newline at end of file
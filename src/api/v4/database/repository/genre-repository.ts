@@ -0,0 +1,45 @@
+import {Database} from "bun:sqlite";
+import {Genre} from "../../types/genre";
+
+/**
+ * Genre kinds recorded in the anime relation table, as accepted by Jikan's `filter` parameter.
+ */
+export const GENRE_FILTERS = ["genres", "explicit_genres", "themes", "demographics"] as const;
+
+export type GenreFilter = typeof GENRE_FILTERS[number];
+
+/**
+ * Read-only repository for genres derived from synced anime, backed by SQLite.
+ */
+export class GenreRepository {
+    private db: Database;
+
+    /**
+     * Creates a new GenreRepository.
+     * @param {Database} db - The Bun SQLite database instance.
+     */
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    /**
+     * Lists anime genres with the number of anime in each.
+     *
+     * Joins [genres] with [anime_genres], restricted to the given kind (or all kinds), and counts distinct anime per genre.
+     *
+     * @param {GenreFilter} [filter] - Restrict to one genre kind (genres, explicit_genres, themes, demographics).
+     * @returns {Promise<Genre[]>} Genres ordered by MAL ID; empty if none.
+     */
+    findAnimeGenres(filter?: GenreFilter): Promise<Genre[]> {
+        const kinds: readonly string[] = filter ? [filter] : GENRE_FILTERS;
+        const stmt = this.db.prepare(`
+            SELECT g.[mal_id], g.[name], g.[url], COUNT(DISTINCT ag.[anime_id]) as count
+            FROM [genres] g
+            JOIN [anime_genres] ag ON ag.[genre_id] = g.[mal_id] AND ag.[kind] IN (${kinds.map(() => "?").join(", ")})
+            WHERE g.[type] = 'anime'
+            GROUP BY g.[mal_id]
+            ORDER BY g.[mal_id]
+        `);
+        return Promise.resolve(stmt.all(...kinds) as Genre[]);
+    }
+}
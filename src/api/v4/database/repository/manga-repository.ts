@@ -0,0 +1,151 @@
+import {Database} from "bun:sqlite";
+import {QueryOptions, Repository} from "../types/repository";
+import {Manga} from "../../types";
+import "../helpers/parser/manga"
+import {CountQueryToSQL, QueryToSQL} from "../helpers/query-to-sql";
+
+/**
+ * Repository for CRUD operations on Manga entities backed by SQLite.
+ */
+export class MangaRepository implements Repository<Manga> {
+    private db: Database;
+
+    /**
+     * Creates a new MangaRepository.
+     * @param {Database} db - The Bun SQLite database instance.
+     */
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    /**
+     * Counts the number of records in the database that match the given query options.
+     *
+     * @param {QueryOptions} options - The options object specifying the criteria for counting records.
+     * @return {Promise<number>} The total count of records matching the query.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let query = await CountQueryToSQL(options, "manga");
+        const stmt = this.db.prepare(query.sql);
+        const result: any = stmt.get(...query.params);
+        return result.count as number;
+    }
+
+    /**
+     * Counts all entries in the "manga" table of the database.
+     *
+     * @return {Promise<number>} The total number of entries in the "manga" table.
+     */
+    countAll(): Promise<number> {
+        const stmt = this.db.prepare("SELECT COUNT(*) as count FROM manga");
+        const result: any = stmt.get();
+        return Promise.resolve(result.count as number);
+    }
+
+    /**
+     * Finds a single Manga by MAL ID.
+     *
+     * Prepares and executes a SELECT query by mal_id; maps the row to a Manga via toManga(); returns null if not found.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<Manga | null>} The Manga if found, otherwise null.
+     */
+    findById(id: number): Promise<Manga | null> {
+        const stmt = this.db.prepare("SELECT * FROM manga WHERE mal_id = ?");
+        const manga = stmt.get(id);
+
+        if (!manga) return Promise.resolve(null);
+
+        return Promise.resolve(manga!!.toManga());
+    }
+
+    /**
+     * Inserts a new Manga row.
+     *
+     * Builds an INSERT statement from the Manga instance, runs it against the DB, and returns the original entity.
+     *
+     * @param {Manga} item - The Manga entity to persist.
+     * @returns {Promise<Manga>} The same Manga instance.
+     * @throws {Error} If the Manga cannot produce a valid insert SQL.
+     */
+    create(item: Manga): Promise<Manga> {
+        let sqlInsert = item.toMangaInsertSQL();
+        if (!sqlInsert) throw new Error("Invalid Manga object");
+
+        const stmt = this.db.prepare(sqlInsert.sql);
+        stmt.run(...sqlInsert.params);
+        return Promise.resolve(item);
+    }
+
+    /**
+     * Deletes a Manga by MAL ID.
+     *
+     * Executes a DELETE statement by mal_id and returns whether any row was affected.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<boolean>} True if a row was removed.
+     */
+    delete(id: number): Promise<boolean> {
+        const stmt = this.db.prepare("DELETE FROM manga WHERE mal_id = ?");
+        const result = stmt.run(id);
+        return Promise.resolve(result.changes > 0);
+    }
+
+    /**
+     * Retrieves all Manga rows.
+     *
+     * Runs a SELECT * query; converts each row with toManga(); returns an empty array when no rows exist.
+     *
+     * @returns {Promise<Manga[]>} Array of Manga entities; empty if none.
+     */
+    findAll(): Promise<Manga[]> {
+        const stmt = this.db.prepare("SELECT * FROM manga");
+        const mangaList = stmt.all();
+        if (mangaList.length === 0) {
+            return Promise.resolve([]);
+        }
+
+        return Promise.resolve(mangaList.map((manga: any) => manga!!.toManga()));
+    }
+
+    /**
+     * Searches for and retrieves a list of manga based on the provided query options.
+     *
+     * @param {QueryOptions} options - The query options for filtering manga results.
+     * @return {Promise<Manga[]>} An array of manga objects matching the query. Returns an empty array if no matches are found.
+     */
+    async findByQuery(options: QueryOptions): Promise<Manga[]> {
+        let query = await QueryToSQL(options, "manga");
+        const stmt = this.db.prepare(query.sql);
+        const result: any = stmt.all(...query.params);
+
+        if (result.length === 0) {
+            return [];
+        }
+
+        return result.map((manga: any) => manga!!.toManga());
+    }
+
+    /**
+     * Updates a Manga by MAL ID.
+     *
+     * Builds an UPDATE statement from the partial entity; executes it and returns the fresh row via findById when rows changed, otherwise null.
+     *
+     * @param {number} id - The MAL ID.
+     * @param {Partial<Manga>} item - Partial fields to update.
+     * @returns {Promise<Manga | null>} Updated Manga or null if no rows changed.
+     * @throws {Error} If the Manga cannot produce a valid update SQL.
+     */
+    update(id: number, item: Partial<Manga>): Promise<Manga | null> {
+        let sqlUpdate = item.toMangaUpdateSQL();
+        if (!sqlUpdate) throw new Error("Invalid Manga object for update");
+
+        const stmt = this.db.prepare(sqlUpdate.sql);
+        const result = stmt.run(...sqlUpdate.params);
+        if (result.changes === 0) {
+            return Promise.resolve(null);
+        }
+
+        return Promise.resolve(this.findById(id));
+    }
+}
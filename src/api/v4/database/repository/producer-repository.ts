@@ -0,0 +1,106 @@
+import {Database} from "bun:sqlite";
+import {QueryOptions} from "../types/repository";
+import {ProducerWithCount} from "../../types/producer";
+
+/**
+ * Columns producers can be ordered by, mapped to their SQL expression.
+ */
+const ORDER_COLUMNS: { [orderBy: string]: string } = {
+    mal_id: "p.[mal_id]",
+    name: "p.[name]",
+    count: "count",
+};
+
+/**
+ * Read-only repository for producers (including studios and licensors) derived from synced anime, backed by SQLite.
+ */
+export class ProducerRepository {
+    private db: Database;
+
+    /**
+     * Creates a new ProducerRepository.
+     * @param {Database} db - The Bun SQLite database instance.
+     */
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    /**
+     * Finds a single producer by MAL ID together with the number of anime it is credited on.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<ProducerWithCount | null>} The producer if found, otherwise null.
+     */
+    findById(id: number): Promise<ProducerWithCount | null> {
+        const stmt = this.db.prepare(`
+            SELECT p.*, (SELECT COUNT(DISTINCT [anime_id]) FROM [anime_producers] WHERE [producer_id] = p.[mal_id]) as count
+            FROM [producers] p
+            WHERE p.[mal_id] = ?
+        `);
+        const producer = stmt.get(id) as ProducerWithCount | null;
+        return Promise.resolve(producer ?? null);
+    }
+
+    /**
+     * Lists producers matching the query, each with the number of anime it is credited on.
+     *
+     * Supports `search` (name contains), `letter` (name starts with), ordering by mal_id, name or count, and paging.
+     *
+     * @param {QueryOptions} options - The query options.
+     * @returns {Promise<ProducerWithCount[]>} Matching producers; empty if none.
+     */
+    findByQuery(options: QueryOptions): Promise<ProducerWithCount[]> {
+        const where = this.buildWhere(options);
+        const orderBy = ORDER_COLUMNS[options.orderBy ?? "mal_id"] ?? ORDER_COLUMNS.mal_id;
+        const dir = options.orderDirection === "DESC" ? "DESC" : "ASC";
+        const limit = options.limit || 25;
+        const page = options.page || 1;
+
+        const stmt = this.db.prepare(`
+            SELECT p.*, COUNT(DISTINCT ap.[anime_id]) as count
+            FROM [producers] p
+            LEFT JOIN [anime_producers] ap ON ap.[producer_id] = p.[mal_id]
+            ${where.sql}
+            GROUP BY p.[mal_id]
+            ORDER BY ${orderBy} ${dir}, p.[mal_id] ASC
+            LIMIT ? OFFSET ?
+        `);
+        return Promise.resolve(stmt.all(...where.params, limit, (page - 1) * limit) as ProducerWithCount[]);
+    }
+
+    /**
+     * Counts producers matching the query (ignores paging and ordering).
+     *
+     * @param {QueryOptions} options - The query options.
+     * @returns {Promise<number>} The number of matching producers.
+     */
+    countByQuery(options: QueryOptions): Promise<number> {
+        const where = this.buildWhere(options);
+        const stmt = this.db.prepare(`SELECT COUNT(*) as count FROM [producers] p ${where.sql}`);
+        const result: any = stmt.get(...where.params);
+        return Promise.resolve(result.count as number);
+    }
+
+    /**
+     * Builds the WHERE clause for name search and letter filters.
+     * @param {QueryOptions} options - The query options.
+     * @returns {{sql: string, params: any[]}} The clause (possibly empty) and its parameters.
+     * @private
+     */
+    private buildWhere(options: QueryOptions): { sql: string, params: any[] } {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (options.search) {
+            conditions.push("p.[name] LIKE ?");
+            params.push(`%${options.search}%`);
+        }
+
+        if (options.letter) {
+            conditions.push("p.[name] LIKE ?");
+            params.push(`${options.letter}%`);
+        }
+
+        return {sql: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params};
+    }
+}
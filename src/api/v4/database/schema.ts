@@ -1,91 +1,20 @@
 import {getDatabase} from "./index";
+import {Migrator} from "./migrator";
 
 /**
  * Handles bootstrapping and managing the database schema for the application.
  *
- * Provides methods that execute CREATE TABLE statements against the SQLite database.
+ * The schema itself is defined by the versioned migrations in `./migrations`; this class brings a database up to date.
  */
 export class Schema {
     /**
-     * Bootstraps the database schema by creating required tables.
-     * Safe to call multiple times; uses IF NOT EXISTS.
+     * Bootstraps the database schema by applying all pending migrations.
+     * Safe to call multiple times; applied migrations are recorded in [schema_migrations] and skipped.
+     * Databases created before migrations were tracked are adopted in place, as every migration tolerates existing objects.
      * @returns {void}
      */
     bootstrap(): void {
-        this.createAnimeTable()
-    }
-
-    /**
-     * Creates the anime table if it does not already exist.
-     * @private
-     */
-    private createAnimeTable() {
-        let db = getDatabase()
-
-        let animeSchema = `
-            CREATE TABLE IF NOT EXISTS [anime] (
-              [mal_id] INT PRIMARY KEY,
-              [url] TEXT,
-              [images.jpg.image_url] TEXT,
-              [images.jpg.small_image_url] TEXT,
-              [images.jpg.large_image_url] TEXT,
-              [images.webp.image_url] TEXT,
-              [images.webp.small_image_url] TEXT,
-              [images.webp.large_image_url] TEXT,
-              [trailer.youtube_id] TEXT,
-              [trailer.url] TEXT,
-              [trailer.embed_url] TEXT,
-              [trailer.images.image_url] TEXT,
-              [trailer.images.small_image_url] TEXT,
-              [trailer.images.medium_image_url] TEXT,
-              [trailer.images.large_image_url] TEXT,
-              [trailer.images.maximum_image_url] TEXT,
-              [approved] INT,
-              [titles] TEXT,
-              [title] TEXT,
-              [title_english] TEXT,
-              [title_japanese] TEXT,
-              [title_synonyms] TEXT,
-              [type] TEXT,
-              [source] TEXT,
-              [episodes] TEXT NULL,
-              [status] TEXT,
-              [airing] INT,
-              [aired.from] TEXT,
-              [aired.to] TEXT NULL,
-              [aired.prop.from.day] INT,
-              [aired.prop.from.month] INT,
-              [aired.prop.from.year] INT,
-              [aired.prop.to.day] TEXT NULL,
-              [aired.prop.to.month] TEXT NULL,
-              [aired.prop.to.year] TEXT NULL,
-              [aired.string] TEXT,
-              [duration] TEXT,
-              [rating] TEXT,
-              [score] REAL,
-              [scored_by] INT,
-              [rank] INT,
-              [popularity] INT,
-              [members] INT,
-              [favorites] INT,
-              [synopsis] TEXT,
-              [background] TEXT,
-              [season] TEXT,
-              [year] INT,
-              [broadcast.day] TEXT,
-              [broadcast.time] TEXT,
-              [broadcast.timezone] TEXT,
-              [broadcast.string] TEXT,
-              [producers] TEXT,
-              [licensors] TEXT,
-              [studios] TEXT,
-              [genres] TEXT,
-              [explicit_genres] TEXT,
-              [themes] TEXT,
-              [demographics] TEXT
-            );
-        `
-
-        db.run(animeSchema)
+        const applied = new Migrator(getDatabase()).up()
+        applied.forEach((m) => console.log(`[migrate] Applied ${m.version} ${m.name}`))
     }
 }
\ No newline at end of file
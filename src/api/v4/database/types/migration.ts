@@ -0,0 +1,25 @@
+import {Database} from "bun:sqlite";
+
+/**
+ * A versioned schema change. Migrations are applied in ascending `version` order and recorded in [schema_migrations].
+ */
+export type Migration = {
+    /** Unique, increasing version number. */
+    version: number;
+    /** Short snake_case description, e.g. `create_clubs`. */
+    name: string;
+    /** Applies the change; must tolerate objects that already exist (databases created before migrations were tracked). */
+    up(db: Database): void;
+    /** Reverts the change made by `up`. */
+    down(db: Database): void;
+}
+
+/**
+ * A migration together with when it was applied to the current database.
+ */
+export type MigrationStatus = {
+    version: number;
+    name: string;
+    /** ISO timestamp, or null while pending. */
+    applied_at: string | null;
+}
\ No newline at end of file
@@ -16,7 +16,44 @@ export type QueryOptions = {
     orderBy?: string;
     orderDirection?: 'ASC' | 'DESC';
     search?: string;
+    searchSynopsis?: boolean;
+    minScore?: number;
+    maxScore?: number;
+    startDate?: string;
+    endDate?: string;
+    genres?: IdFilter;
+    genresExclude?: IdFilter;
+    producers?: IdFilter;
+    studios?: IdFilter;
+    licensors?: IdFilter;
+    sfw?: boolean;
+    letter?: string;
+    fields?: string[];
+    view?: string;
+    cursor?: string;
     filters: {
         [key: string]: any;
     }
-}
\ No newline at end of file
+    conditions?: FilterCondition[];
+}
+
+/**
+ * A list of related entry IDs (e.g. genres) where either all (`1,4`) or any (`1|4`) must match.
+ */
+export type IdFilter = {
+    ids: number[];
+    match: 'all' | 'any';
+};
+
+export type FilterValue = string | number;
+
+/**
+ * A single operator filter on a column, e.g. `score[gte]=8` or `year[between]=2010,2015`.
+ */
+export type FilterCondition =
+    | { column: string; operator: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'like'; value: FilterValue }
+    | { column: string; operator: 'between'; value: [FilterValue, FilterValue] }
+    | { column: string; operator: 'in' | 'nin'; value: FilterValue[] }
+    | { column: string; operator: 'null'; value: boolean };
+
+export type FilterOperator = FilterCondition['operator'];
\ No newline at end of file
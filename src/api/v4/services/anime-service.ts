@@ -2,10 +2,30 @@ import {ItemService} from "../types/item-service";
 import {Anime} from "../types";
 import {QueryOptions} from "../database/types/repository";
 import {AnimeRepository} from "../database/repository/anime-repository";
-import {deleteCache, getCache, setCache} from "../cache";
+import {deleteCache, getCache, invalidateCacheTags, setTaggedCache} from "../cache";
 import {QueryToString} from "../utils/query-to-string";
+import {Paginated} from "../types/pagination";
+import {Paginate} from "../utils/pagination";
+import {IsStale} from "../utils/freshness";
+import {SeasonArchive} from "../types/season";
 
 
+/**
+ * An anime together with where it was served from: the cache store, a fresh DB row, or a DB row due for a refresh.
+ */
+export type AnimeLookup = {
+    data: Anime
+    source: 'cache' | 'db' | 'db-stale'
+}
+
+/**
+ * A cached lookup: the anime together with its last sync, so cache hits can be checked for freshness too.
+ */
+type CachedLookup = {
+    data: Anime
+    synced_at: string | null
+}
+
 /**
  * Service layer for working with Anime entities.
  * Provides caching and orchestrates access to the repository.
@@ -41,16 +61,42 @@ export default class AnimeService implements ItemService<Anime> {
             return JSON.parse(animeCache) as Anime;
         }
 
-        let anime = this.repository.findById(id)
+        let anime = await this.repository.findById(id)
         if (anime) {
             // Store in cache for future requests
-            await setCache(`anime_${id}`, JSON.stringify(anime));
+            await setTaggedCache(`anime_${id}`, JSON.stringify(anime), [`anime:${id}`]);
             return anime;
         }
 
         return null;
     }
 
+    /**
+     * Retrieves an Anime by MAL ID together with its source and freshness, consulting cache first.
+     *
+     * The anime is cached with its `synced_at` (key `anime_lookup_{id}`), so both cache hits and DB rows are checked against
+     * the freshness policy (based on `synced_at` and airing state): fresh ones are reported as `cache` or `db`, stale ones as
+     * `db-stale`. Stale rows are still returned so callers can serve them while refreshing in the background.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<AnimeLookup | null>} The Anime and its source if found; otherwise null.
+     */
+    async lookup(id: number): Promise<AnimeLookup | null> {
+        let lookupCache = await getCache(`anime_lookup_${id}`);
+        if (lookupCache) {
+            let cached = JSON.parse(lookupCache) as CachedLookup;
+            return {data: cached.data, source: IsStale(cached.data, cached.synced_at) ? 'db-stale' : 'cache'};
+        }
+
+        let anime = await this.repository.findById(id);
+        if (!anime) return null;
+
+        let syncedAt = await this.repository.findSyncedAt(id);
+        let cached: CachedLookup = {data: anime, synced_at: syncedAt};
+        await setTaggedCache(`anime_lookup_${id}`, JSON.stringify(cached), [`anime:${id}`]);
+        return {data: anime, source: IsStale(anime, syncedAt) ? 'db-stale' : 'db'};
+    }
+
     /**
      * Returns all Anime entities.
      *
@@ -66,6 +112,7 @@ export default class AnimeService implements ItemService<Anime> {
      * Finds Anime by complex query and caches the result.
      *
      * Builds a cache key from the query, returns cached results when available; otherwise fetches from the repository, caches non-empty results, and returns them.
+     * Cached results are tagged `anime:list` plus `anime:{id}` for every entry, so writes can invalidate them.
      *
      * @param {QueryOptions} options - Query options.
      * @returns {Promise<Anime[]>} Matching Anime list (possibly empty).
@@ -82,17 +129,87 @@ export default class AnimeService implements ItemService<Anime> {
 
         let animeList = await this.repository.findByQuery(options);
         if (animeList.length > 0) {
-            await setCache(cacheKey, JSON.stringify(animeList));
+            await setTaggedCache(cacheKey, JSON.stringify(animeList), [`anime:list`, ...animeList.map((item) => `anime:${item.mal_id}`)]);
             return animeList;
         }
 
         return [];
     }
 
+    /**
+     * Counts Anime matching a query and caches the result.
+     *
+     * Paging and ordering do not affect the count, so they are left out of the cache key, which is shared by every page of the same query.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<number>} Number of matching rows.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let cacheKey = `anime_count_${QueryToString({...options, page: undefined, limit: undefined, orderBy: undefined, orderDirection: undefined, cursor: undefined})}`;
+        let countCache = await getCache(cacheKey);
+        if (countCache) {
+            return Number(countCache);
+        }
+
+        let count = await this.repository.countByQuery(options);
+        await setTaggedCache(cacheKey, String(count), [`anime:list`]);
+        return count;
+    }
+
+    /**
+     * Finds a page of Anime by query together with a Jikan-compatible pagination object.
+     *
+     * Runs the (cached) list and count lookups for the same options and combines them into a paginated envelope;
+     * a `cursor` switches from offset to keyset paging, and every page carries the `next_cursor` after it.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Paginated<Anime>>} The page of Anime and its pagination.
+     */
+    paginate(options: QueryOptions): Promise<Paginated<Anime>> {
+        return Paginate(options, "anime", (o) => this.findByQuery(o), (o) => this.countByQuery(o));
+    }
+
+    /**
+     * Picks a uniformly random Anime among those matching a query.
+     *
+     * Counts the matches (cached), draws a random offset and fetches the single row at that offset in `mal_id` order straight
+     * from the repository, so random draws do not fill the cache with single-row entries.
+     *
+     * @param {QueryOptions} options - Query options; paging and ordering are ignored.
+     * @returns {Promise<Anime | null>} A random matching Anime, or null if nothing matches.
+     */
+    async findRandom(options: QueryOptions): Promise<Anime | null> {
+        let total = await this.countByQuery(options);
+        if (total === 0) return null;
+
+        let offset = Math.floor(Math.random() * total);
+        let [anime] = await this.repository.findByQuery({...options, orderBy: 'mal_id', orderDirection: 'ASC', cursor: undefined, limit: 1, page: offset + 1});
+        return anime ?? null;
+    }
+
+    /**
+     * Lists the seasons that have stored anime, consulting cache first.
+     *
+     * @returns {Promise<SeasonArchive[]>} The years and their seasons, newest first.
+     */
+    async findSeasons(): Promise<SeasonArchive[]> {
+        let seasonsCache = await getCache(`anime_seasons`);
+        if (seasonsCache) {
+            return JSON.parse(seasonsCache) as SeasonArchive[];
+        }
+
+        let seasons = await this.repository.findSeasons();
+        if (seasons.length > 0) {
+            await setTaggedCache(`anime_seasons`, JSON.stringify(seasons), [`anime:list`]);
+        }
+
+        return seasons;
+    }
+
     /**
      * Creates a new Anime and writes it to cache.
      *
-     * Persists the entity via the repository, then caches it keyed by mal_id, and returns the created entity.
+     * Persists the entity via the repository, invalidates cached lists and counts (tag `anime:list`), then caches it keyed by mal_id, and returns the created entity.
      *
      * @param {Anime} item - The Anime to create.
      * @returns {Promise<Anime>} The created Anime.
@@ -100,34 +217,49 @@ export default class AnimeService implements ItemService<Anime> {
     async create(item: Anime): Promise<Anime> {
         let createdAnime = await this.repository.create(item);
 
+        await invalidateCacheTags([`anime:list`]);
+
         // Store in cache for future requests
-        await setCache(`anime_${createdAnime.mal_id}`, JSON.stringify(createdAnime));
+        await setTaggedCache(`anime_${createdAnime.mal_id}`, JSON.stringify(createdAnime), [`anime:${createdAnime.mal_id}`]);
         return Promise.resolve(createdAnime);
     }
 
     /**
      * Updates an existing Anime by MAL ID and refreshes cache.
      *
-     * Delegates update to the repository; if a row was changed, it overwrites the cache with the updated entity and returns it, otherwise returns null.
+     * Delegates update to the repository; if a row was changed, it invalidates cached entries containing it and every cached list or count (tags `anime:{id}` and `anime:list`), overwrites the cache with the updated entity and returns it, otherwise returns null.
      *
      * @param {number} id - The MAL ID.
      * @param {Partial<Anime>} item - Partial update.
      * @returns {Promise<Anime | null>} Updated Anime or null if not found.
      */
     async update(id: number, item: Partial<Anime>): Promise<Anime | null> {
-        let updatedAnime = this.repository.update(id, item);
+        let updatedAnime = await this.repository.update(id, item);
         if (updatedAnime) {
-            await setCache(`anime_${id}`, JSON.stringify(updatedAnime));
+            await invalidateCacheTags([`anime:${id}`, `anime:list`]);
+            await setTaggedCache(`anime_${id}`, JSON.stringify(updatedAnime), [`anime:${id}`]);
             return Promise.resolve(updatedAnime);
         }
 
         return Promise.resolve(null);
     }
 
+    /**
+     * Records a failed refresh of a stored Anime (upstream 404 or error) so it is not refreshed again until its
+     * freshness window elapses; the stored data is left as is.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<void>}
+     */
+    async recordSyncAttempt(id: number): Promise<void> {
+        await this.repository.recordSyncAttempt(id);
+        await deleteCache(`anime_lookup_${id}`);
+    }
+
     /**
      * Deletes an Anime by MAL ID and removes it from cache.
      *
-     * First deletes any cached entry for the MAL ID, then calls the repository to remove the row and returns the outcome.
+     * First deletes any cached entry for the MAL ID and every cached list or count (tags `anime:{id}` and `anime:list`), then calls the repository to remove the row and returns the outcome.
      *
      * @param {number} id - The MAL ID.
      * @returns {Promise<boolean>} True if deletion succeeded.
@@ -135,6 +267,7 @@ export default class AnimeService implements ItemService<Anime> {
     async delete(id: number): Promise<boolean> {
         // Remove from cache
         await deleteCache(`anime_${id}`);
+        await invalidateCacheTags([`anime:${id}`, `anime:list`]);
         return Promise.resolve(this.repository.delete(id));
     }
 }
\ No newline at end of file
@@ -0,0 +1,223 @@
+import {ItemService} from "../types/item-service";
+import {AnimeCharacter, Character} from "../types";
+import {QueryOptions} from "../database/types/repository";
+import {CharacterRepository} from "../database/repository/character-repository";
+import {deleteCache, getCache, invalidateCacheTags, setTaggedCache} from "../cache";
+import {QueryToString} from "../utils/query-to-string";
+import {Paginated} from "../types/pagination";
+import {Paginate} from "../utils/pagination";
+
+
+/**
+ * Service layer for working with Character entities.
+ * Provides caching and orchestrates access to the repository.
+ */
+export default class CharacterService implements ItemService<Character> {
+    private repository: CharacterRepository;
+
+    /**
+     * Constructs the CharacterService with a repository dependency.
+     *
+     * Stores the provided repository instance on the service for later method calls.
+     *
+     * @param {CharacterRepository} repository - The underlying data repository.
+     */
+    constructor(repository: CharacterRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Retrieves a Character by MAL ID, consulting cache first.
+     *
+     * Checks the cache for the key; if present, returns it; otherwise queries the repository, caches the result, and returns it.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<Character | null>} The Character if found; otherwise null.
+     */
+    async findById(id: number): Promise<Character | null> {
+        let characterCache = await getCache(`character_${id}`);
+        if (characterCache) {
+            return JSON.parse(characterCache) as Character;
+        }
+
+        let character = await this.repository.findById(id)
+        if (character) {
+            // Store in cache for future requests
+            await setTaggedCache(`character_${id}`, JSON.stringify(character), [`character:${id}`]);
+            return character;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns all Character entities.
+     *
+     * Delegates directly to the repository and wraps the result in a resolved Promise.
+     *
+     * @returns {Promise<Character[]>} All Characters; empty if none.
+     */
+    findAll(): Promise<Character[]> {
+        return Promise.resolve(this.repository.findAll());
+    }
+
+    /**
+     * Finds Characters by complex query and caches the result.
+     *
+     * Builds a cache key from the query, returns cached results when available; otherwise fetches from the repository, caches non-empty results, and returns them.
+     * Cached results are tagged `character:list` plus `character:{id}` for every entry, so writes can invalidate them.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Character[]>} Matching Character list (possibly empty).
+     */
+    async findByQuery(options: QueryOptions): Promise<Character[]> {
+        let cacheKey = `character_${QueryToString(options)}`;
+        let characterCache = await getCache(cacheKey);
+        if (characterCache) {
+            return JSON.parse(characterCache) as Character[]
+        }
+
+        let characterList = await this.repository.findByQuery(options);
+        if (characterList.length > 0) {
+            await setTaggedCache(cacheKey, JSON.stringify(characterList), [`character:list`, ...characterList.map((item) => `character:${item.mal_id}`)]);
+            return characterList;
+        }
+
+        return [];
+    }
+
+    /**
+     * Counts Characters matching a query and caches the result.
+     *
+     * Paging and ordering do not affect the count, so they are left out of the cache key, which is shared by every page of the same query.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<number>} Number of matching rows.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let cacheKey = `character_count_${QueryToString({...options, page: undefined, limit: undefined, orderBy: undefined, orderDirection: undefined, cursor: undefined})}`;
+        let countCache = await getCache(cacheKey);
+        if (countCache) {
+            return Number(countCache);
+        }
+
+        let count = await this.repository.countByQuery(options);
+        await setTaggedCache(cacheKey, String(count), [`character:list`]);
+        return count;
+    }
+
+    /**
+     * Finds a page of Characters by query together with a Jikan-compatible pagination object.
+     *
+     * Runs the (cached) list and count lookups for the same options and combines them into a paginated envelope;
+     * a `cursor` switches from offset to keyset paging, and every page carries the `next_cursor` after it.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Paginated<Character>>} The page of Characters and its pagination.
+     */
+    paginate(options: QueryOptions): Promise<Paginated<Character>> {
+        return Paginate(options, "characters", (o) => this.findByQuery(o), (o) => this.countByQuery(o));
+    }
+
+    /**
+     * Creates a new Character and writes it to cache.
+     *
+     * Persists the entity via the repository, invalidates cached lists and counts (tag `character:list`), then caches it keyed by mal_id, and returns the created entity.
+     *
+     * @param {Character} item - The Character to create.
+     * @returns {Promise<Character>} The created Character.
+     */
+    async create(item: Character): Promise<Character> {
+        let createdCharacter = await this.repository.create(item);
+
+        await invalidateCacheTags([`character:list`]);
+
+        // Store in cache for future requests
+        await setTaggedCache(`character_${createdCharacter.mal_id}`, JSON.stringify(createdCharacter), [`character:${createdCharacter.mal_id}`]);
+        return Promise.resolve(createdCharacter);
+    }
+
+    /**
+     * Updates an existing Character by MAL ID and refreshes cache.
+     *
+     * Delegates update to the repository; if a row was changed, it invalidates cached entries containing it and every cached list or count (tags `character:{id}` and `character:list`), overwrites the cache with the updated entity and returns it, otherwise returns null.
+     *
+     * @param {number} id - The MAL ID.
+     * @param {Partial<Character>} item - Partial update.
+     * @returns {Promise<Character | null>} Updated Character or null if not found.
+     */
+    async update(id: number, item: Partial<Character>): Promise<Character | null> {
+        let updatedCharacter = await this.repository.update(id, item);
+        if (updatedCharacter) {
+            await invalidateCacheTags([`character:${id}`, `character:list`]);
+            await setTaggedCache(`character_${id}`, JSON.stringify(updatedCharacter), [`character:${id}`]);
+            return Promise.resolve(updatedCharacter);
+        }
+
+        return Promise.resolve(null);
+    }
+
+    /**
+     * Deletes a Character by MAL ID and removes it from cache.
+     *
+     * First deletes any cached entry for the MAL ID and every cached list or count (tags `character:{id}` and `character:list`), then calls the repository to remove the row and returns the outcome.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<boolean>} True if deletion succeeded.
+     */
+    async delete(id: number): Promise<boolean> {
+        // Remove from cache
+        await deleteCache(`character_${id}`);
+        await invalidateCacheTags([`character:${id}`, `character:list`]);
+        return Promise.resolve(this.repository.delete(id));
+    }
+
+    /**
+     * Lists the characters of an anime, consulting cache first.
+     *
+     * A fetched list is cached even when empty, so anime without characters are not looked up upstream again.
+     *
+     * @param {number} animeId - The anime MAL ID.
+     * @returns {Promise<AnimeCharacter[] | null>} The anime's characters (empty if it has none), or null if its list was never fetched.
+     */
+    async findByAnimeId(animeId: number): Promise<AnimeCharacter[] | null> {
+        let characterCache = await getCache(`anime_characters_${animeId}`);
+        if (characterCache) {
+            return JSON.parse(characterCache) as AnimeCharacter[];
+        }
+
+        let characters = await this.repository.findByAnimeId(animeId);
+        if (characters) {
+            await setTaggedCache(`anime_characters_${animeId}`, JSON.stringify(characters), [`character:list`, ...characters.map((entry) => `character:${entry.character.mal_id}`)]);
+        }
+
+        return characters;
+    }
+
+    /**
+     * Replaces the characters of an anime and refreshes cache, invalidating cached character lists and counts (tag `character:list`).
+     *
+     * @param {number} animeId - The anime MAL ID.
+     * @param {AnimeCharacter[]} entries - The anime's characters as returned by Jikan.
+     * @returns {Promise<AnimeCharacter[]>} The stored entries.
+     */
+    async saveAnimeCharacters(animeId: number, entries: AnimeCharacter[]): Promise<AnimeCharacter[]> {
+        await this.repository.saveAnimeCharacters(animeId, entries);
+
+        await invalidateCacheTags([`character:list`]);
+
+        let characters = await this.repository.findByAnimeId(animeId) ?? [];
+        await setTaggedCache(`anime_characters_${animeId}`, JSON.stringify(characters), [`character:list`, ...characters.map((entry) => `character:${entry.character.mal_id}`)]);
+        return characters;
+    }
+
+    /**
+     * Checks whether a character is stored with its full record rather than the minimal row from an anime's character list.
+     *
+     * @param {number} id - The character MAL ID.
+     * @returns {Promise<boolean>} True if full details are stored.
+     */
+    hasDetails(id: number): Promise<boolean> {
+        return this.repository.hasDetails(id);
+    }
+}
@@ -0,0 +1,174 @@
+import {ItemService} from "../types/item-service";
+import {Club} from "../types";
+import {QueryOptions} from "../database/types/repository";
+import {ClubRepository} from "../database/repository/club-repository";
+import {deleteCache, getCache, invalidateCacheTags, setTaggedCache} from "../cache";
+import {QueryToString} from "../utils/query-to-string";
+import {Paginated} from "../types/pagination";
+import {Paginate} from "../utils/pagination";
+
+
+/**
+ * Service layer for working with Club entities.
+ * Provides caching and orchestrates access to the repository.
+ */
+export default class ClubService implements ItemService<Club> {
+    private repository: ClubRepository;
+
+    /**
+     * Constructs the ClubService with a repository dependency.
+     *
+     * Stores the provided repository instance on the service for later method calls.
+     *
+     * @param {ClubRepository} repository - The underlying data repository.
+     */
+    constructor(repository: ClubRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Retrieves a Club by MAL ID, consulting cache first.
+     *
+     * Checks the cache for the key; if present, returns it; otherwise queries the repository, caches the result, and returns it.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<Club | null>} The Club if found; otherwise null.
+     */
+    async findById(id: number): Promise<Club | null> {
+        let clubCache = await getCache(`club_${id}`);
+        if (clubCache) {
+            return JSON.parse(clubCache) as Club;
+        }
+
+        let club = await this.repository.findById(id)
+        if (club) {
+            // Store in cache for future requests
+            await setTaggedCache(`club_${id}`, JSON.stringify(club), [`club:${id}`]);
+            return club;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns all Club entities.
+     *
+     * Delegates directly to the repository and wraps the result in a resolved Promise.
+     *
+     * @returns {Promise<Club[]>} All Club; empty if none.
+     */
+    findAll(): Promise<Club[]> {
+        return Promise.resolve(this.repository.findAll());
+    }
+
+    /**
+     * Finds Club by complex query and caches the result.
+     *
+     * Builds a cache key from the query, returns cached results when available; otherwise fetches from the repository, caches non-empty results, and returns them.
+     * Cached results are tagged `club:list` plus `club:{id}` for every entry, so writes can invalidate them.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Club[]>} Matching Club list (possibly empty).
+     */
+    async findByQuery(options: QueryOptions): Promise<Club[]> {
+        let cacheKey = `club_${QueryToString(options)}`;
+        let clubCache = await getCache(cacheKey);
+        if (clubCache) {
+            return JSON.parse(clubCache) as Club[]
+        }
+
+        let clubList = await this.repository.findByQuery(options);
+        if (clubList.length > 0) {
+            await setTaggedCache(cacheKey, JSON.stringify(clubList), [`club:list`, ...clubList.map((item) => `club:${item.mal_id}`)]);
+            return clubList;
+        }
+
+        return [];
+    }
+
+    /**
+     * Counts Club matching a query and caches the result.
+     *
+     * Paging and ordering do not affect the count, so they are left out of the cache key, which is shared by every page of the same query.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<number>} Number of matching rows.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let cacheKey = `club_count_${QueryToString({...options, page: undefined, limit: undefined, orderBy: undefined, orderDirection: undefined, cursor: undefined})}`;
+        let countCache = await getCache(cacheKey);
+        if (countCache) {
+            return Number(countCache);
+        }
+
+        let count = await this.repository.countByQuery(options);
+        await setTaggedCache(cacheKey, String(count), [`club:list`]);
+        return count;
+    }
+
+    /**
+     * Finds a page of Club by query together with a Jikan-compatible pagination object.
+     *
+     * Runs the (cached) list and count lookups for the same options and combines them into a paginated envelope;
+     * a `cursor` switches from offset to keyset paging, and every page carries the `next_cursor` after it.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Paginated<Club>>} The page of Club and its pagination.
+     */
+    paginate(options: QueryOptions): Promise<Paginated<Club>> {
+        return Paginate(options, "clubs", (o) => this.findByQuery(o), (o) => this.countByQuery(o));
+    }
+
+    /**
+     * Creates a new Club and writes it to cache.
+     *
+     * Persists the entity via the repository, invalidates cached lists and counts (tag `club:list`), then caches it keyed by mal_id, and returns the created entity.
+     *
+     * @param {Club} item - The Club to create.
+     * @returns {Promise<Club>} The created Club.
+     */
+    async create(item: Club): Promise<Club> {
+        let createdClub = await this.repository.create(item);
+
+        await invalidateCacheTags([`club:list`]);
+
+        // Store in cache for future requests
+        await setTaggedCache(`club_${createdClub.mal_id}`, JSON.stringify(createdClub), [`club:${createdClub.mal_id}`]);
+        return Promise.resolve(createdClub);
+    }
+
+    /**
+     * Updates an existing Club by MAL ID and refreshes cache.
+     *
+     * Delegates update to the repository; if a row was changed, it invalidates cached entries containing it and every cached list or count (tags `club:{id}` and `club:list`), overwrites the cache with the updated entity and returns it, otherwise returns null.
+     *
+     * @param {number} id - The MAL ID.
+     * @param {Partial<Club>} item - Partial update.
+     * @returns {Promise<Club | null>} Updated Club or null if not found.
+     */
+    async update(id: number, item: Partial<Club>): Promise<Club | null> {
+        let updatedClub = await this.repository.update(id, item);
+        if (updatedClub) {
+            await invalidateCacheTags([`club:${id}`, `club:list`]);
+            await setTaggedCache(`club_${id}`, JSON.stringify(updatedClub), [`club:${id}`]);
+            return Promise.resolve(updatedClub);
+        }
+
+        return Promise.resolve(null);
+    }
+
+    /**
+     * Deletes a Club by MAL ID and removes it from cache.
+     *
+     * First deletes any cached entry for the MAL ID and every cached list or count (tags `club:{id}` and `club:list`), then calls the repository to remove the row and returns the outcome.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<boolean>} True if deletion succeeded.
+     */
+    async delete(id: number): Promise<boolean> {
+        // Remove from cache
+        await deleteCache(`club_${id}`);
+        await invalidateCacheTags([`club:${id}`, `club:list`]);
+        return Promise.resolve(this.repository.delete(id));
+    }
+}
@@ -0,0 +1,42 @@
+import {Genre} from "../types/genre";
+import {GenreFilter, GenreRepository} from "../database/repository/genre-repository";
+import {getCache, setTaggedCache} from "../cache";
+
+
+/**
+ * Service layer for genres derived from synced anime.
+ * Provides caching and orchestrates access to the repository; cached results are tagged `anime:list`, as they are derived from anime rows.
+ */
+export default class GenreService {
+    private repository: GenreRepository;
+
+    /**
+     * Constructs the GenreService with a repository dependency.
+     *
+     * @param {GenreRepository} repository - The underlying data repository.
+     */
+    constructor(repository: GenreRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Lists anime genres with counts, consulting cache first.
+     *
+     * @param {GenreFilter} [filter] - Restrict to one genre kind.
+     * @returns {Promise<Genre[]>} Genres with their anime counts.
+     */
+    async findAnimeGenres(filter?: GenreFilter): Promise<Genre[]> {
+        let cacheKey = `genres_anime_${filter ?? 'all'}`;
+        let genreCache = await getCache(cacheKey);
+        if (genreCache) {
+            return JSON.parse(genreCache) as Genre[];
+        }
+
+        let genres = await this.repository.findAnimeGenres(filter);
+        if (genres.length > 0) {
+            await setTaggedCache(cacheKey, JSON.stringify(genres), [`anime:list`]);
+        }
+
+        return genres;
+    }
+}
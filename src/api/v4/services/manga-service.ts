@@ -0,0 +1,174 @@
+import {ItemService} from "../types/item-service";
+import {Manga} from "../types";
+import {QueryOptions} from "../database/types/repository";
+import {MangaRepository} from "../database/repository/manga-repository";
+import {deleteCache, getCache, invalidateCacheTags, setTaggedCache} from "../cache";
+import {QueryToString} from "../utils/query-to-string";
+import {Paginated} from "../types/pagination";
+import {Paginate} from "../utils/pagination";
+
+
+/**
+ * Service layer for working with Manga entities.
+ * Provides caching and orchestrates access to the repository.
+ */
+export default class MangaService implements ItemService<Manga> {
+    private repository: MangaRepository;
+
+    /**
+     * Constructs the MangaService with a repository dependency.
+     *
+     * Stores the provided repository instance on the service for later method calls.
+     *
+     * @param {MangaRepository} repository - The underlying data repository.
+     */
+    constructor(repository: MangaRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Retrieves a Manga by MAL ID, consulting cache first.
+     *
+     * Checks the cache for the key; if present, returns it; otherwise queries the repository, caches the result, and returns it.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<Manga | null>} The Manga if found; otherwise null.
+     */
+    async findById(id: number): Promise<Manga | null> {
+        let mangaCache = await getCache(`manga_${id}`);
+        if (mangaCache) {
+            return JSON.parse(mangaCache) as Manga;
+        }
+
+        let manga = await this.repository.findById(id)
+        if (manga) {
+            // Store in cache for future requests
+            await setTaggedCache(`manga_${id}`, JSON.stringify(manga), [`manga:${id}`]);
+            return manga;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns all Manga entities.
+     *
+     * Delegates directly to the repository and wraps the result in a resolved Promise.
+     *
+     * @returns {Promise<Manga[]>} All Manga; empty if none.
+     */
+    findAll(): Promise<Manga[]> {
+        return Promise.resolve(this.repository.findAll());
+    }
+
+    /**
+     * Finds Manga by complex query and caches the result.
+     *
+     * Builds a cache key from the query, returns cached results when available; otherwise fetches from the repository, caches non-empty results, and returns them.
+     * Cached results are tagged `manga:list` plus `manga:{id}` for every entry, so writes can invalidate them.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Manga[]>} Matching Manga list (possibly empty).
+     */
+    async findByQuery(options: QueryOptions): Promise<Manga[]> {
+        let cacheKey = `manga_${QueryToString(options)}`;
+        let mangaCache = await getCache(cacheKey);
+        if (mangaCache) {
+            return JSON.parse(mangaCache) as Manga[]
+        }
+
+        let mangaList = await this.repository.findByQuery(options);
+        if (mangaList.length > 0) {
+            await setTaggedCache(cacheKey, JSON.stringify(mangaList), [`manga:list`, ...mangaList.map((item) => `manga:${item.mal_id}`)]);
+            return mangaList;
+        }
+
+        return [];
+    }
+
+    /**
+     * Counts Manga matching a query and caches the result.
+     *
+     * Paging and ordering do not affect the count, so they are left out of the cache key, which is shared by every page of the same query.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<number>} Number of matching rows.
+     */
+    async countByQuery(options: QueryOptions): Promise<number> {
+        let cacheKey = `manga_count_${QueryToString({...options, page: undefined, limit: undefined, orderBy: undefined, orderDirection: undefined, cursor: undefined})}`;
+        let countCache = await getCache(cacheKey);
+        if (countCache) {
+            return Number(countCache);
+        }
+
+        let count = await this.repository.countByQuery(options);
+        await setTaggedCache(cacheKey, String(count), [`manga:list`]);
+        return count;
+    }
+
+    /**
+     * Finds a page of Manga by query together with a Jikan-compatible pagination object.
+     *
+     * Runs the (cached) list and count lookups for the same options and combines them into a paginated envelope;
+     * a `cursor` switches from offset to keyset paging, and every page carries the `next_cursor` after it.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Paginated<Manga>>} The page of Manga and its pagination.
+     */
+    paginate(options: QueryOptions): Promise<Paginated<Manga>> {
+        return Paginate(options, "manga", (o) => this.findByQuery(o), (o) => this.countByQuery(o));
+    }
+
+    /**
+     * Creates a new Manga and writes it to cache.
+     *
+     * Persists the entity via the repository, invalidates cached lists and counts (tag `manga:list`), then caches it keyed by mal_id, and returns the created entity.
+     *
+     * @param {Manga} item - The Manga to create.
+     * @returns {Promise<Manga>} The created Manga.
+     */
+    async create(item: Manga): Promise<Manga> {
+        let createdManga = await this.repository.create(item);
+
+        await invalidateCacheTags([`manga:list`]);
+
+        // Store in cache for future requests
+        await setTaggedCache(`manga_${createdManga.mal_id}`, JSON.stringify(createdManga), [`manga:${createdManga.mal_id}`]);
+        return Promise.resolve(createdManga);
+    }
+
+    /**
+     * Updates an existing Manga by MAL ID and refreshes cache.
+     *
+     * Delegates update to the repository; if a row was changed, it invalidates cached entries containing it and every cached list or count (tags `manga:{id}` and `manga:list`), overwrites the cache with the updated entity and returns it, otherwise returns null.
+     *
+     * @param {number} id - The MAL ID.
+     * @param {Partial<Manga>} item - Partial update.
+     * @returns {Promise<Manga | null>} Updated Manga or null if not found.
+     */
+    async update(id: number, item: Partial<Manga>): Promise<Manga | null> {
+        let updatedManga = await this.repository.update(id, item);
+        if (updatedManga) {
+            await invalidateCacheTags([`manga:${id}`, `manga:list`]);
+            await setTaggedCache(`manga_${id}`, JSON.stringify(updatedManga), [`manga:${id}`]);
+            return Promise.resolve(updatedManga);
+        }
+
+        return Promise.resolve(null);
+    }
+
+    /**
+     * Deletes a Manga by MAL ID and removes it from cache.
+     *
+     * First deletes any cached entry for the MAL ID and every cached list or count (tags `manga:{id}` and `manga:list`), then calls the repository to remove the row and returns the outcome.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<boolean>} True if deletion succeeded.
+     */
+    async delete(id: number): Promise<boolean> {
+        // Remove from cache
+        await deleteCache(`manga_${id}`);
+        await invalidateCacheTags([`manga:${id}`, `manga:list`]);
+        return Promise.resolve(this.repository.delete(id));
+    }
+}
@@ -0,0 +1,70 @@
+import {ProducerWithCount} from "../types/producer";
+import {QueryOptions} from "../database/types/repository";
+import {ProducerRepository} from "../database/repository/producer-repository";
+import {getCache, setTaggedCache} from "../cache";
+import {QueryToString} from "../utils/query-to-string";
+import {Paginated} from "../types/pagination";
+import {ToPagination} from "../utils/pagination";
+
+
+/**
+ * Service layer for producers (including studios and licensors) derived from synced anime.
+ * Provides caching and orchestrates access to the repository; cached results are tagged `anime:list`, as they are derived from anime rows.
+ */
+export default class ProducerService {
+    private repository: ProducerRepository;
+
+    /**
+     * Constructs the ProducerService with a repository dependency.
+     *
+     * @param {ProducerRepository} repository - The underlying data repository.
+     */
+    constructor(repository: ProducerRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Retrieves a producer by MAL ID, consulting cache first.
+     *
+     * @param {number} id - The MAL ID.
+     * @returns {Promise<ProducerWithCount | null>} The producer if found; otherwise null.
+     */
+    async findById(id: number): Promise<ProducerWithCount | null> {
+        let producerCache = await getCache(`producer_${id}`);
+        if (producerCache) {
+            return JSON.parse(producerCache) as ProducerWithCount;
+        }
+
+        let producer = await this.repository.findById(id);
+        if (producer) {
+            await setTaggedCache(`producer_${id}`, JSON.stringify(producer), [`anime:list`]);
+            return producer;
+        }
+
+        return null;
+    }
+
+    /**
+     * Finds a page of producers by query together with a Jikan-compatible pagination object, consulting cache first.
+     *
+     * @param {QueryOptions} options - Query options.
+     * @returns {Promise<Paginated<ProducerWithCount>>} The page of producers and its pagination.
+     */
+    async paginate(options: QueryOptions): Promise<Paginated<ProducerWithCount>> {
+        let cacheKey = `producers_${QueryToString(options)}`;
+        let producersCache = await getCache(cacheKey);
+        if (producersCache) {
+            return JSON.parse(producersCache) as Paginated<ProducerWithCount>;
+        }
+
+        let data = await this.repository.findByQuery(options);
+        let total = await this.repository.countByQuery(options);
+        let result = {
+            pagination: ToPagination(options, data.length, total),
+            data,
+        };
+
+        await setTaggedCache(cacheKey, JSON.stringify(result), [`anime:list`]);
+        return result;
+    }
+}
@@ -1,6 +1,27 @@
 export interface CacheStore {
     get(key: string): Promise<string | null>;
-    set(key: string, value: string, ttl?: number): Promise<void>;
+    /** `tags` group related entries (e.g. `anime:list`, `anime:1`) so they can be invalidated together. */
+    set(key: string, value: string, ttl?: number, tags?: string[]): Promise<void>;
     delete(key: string): Promise<void>;
-    clear(): Promise<void>;
+    /** Deletes every entry stored with any of the given tags. */
+    invalidateTags(tags: string[]): Promise<void>;
+    /** Deletes all entries, or only those whose key matches a glob pattern such as `anime_*`; resolves to the number deleted. */
+    clear(pattern?: string): Promise<number>;
+    /** Counters and size for monitoring, for stores that track them. */
+    stats?(): CacheStats;
+}
+
+/**
+ * Cache counters and size, as reported by `GET /` under `cache`.
+ */
+export type CacheStats = {
+    store: string;
+    hits: number;
+    misses: number;
+    evictions: number;
+    expirations: number;
+    entries: number;
+    bytes: number;
+    max_entries: number;
+    max_bytes: number;
 }
\ No newline at end of file
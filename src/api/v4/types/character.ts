@@ -16,3 +16,35 @@ export type Character = {
     favorites: number
     about: any
 }
+
+export type AnimeCharacter = {
+    character: {
+        mal_id: number
+        url: string
+        images: {
+            jpg: {
+                image_url: string
+            }
+            webp: {
+                image_url: string
+                small_image_url: string
+            }
+        }
+        name: string
+    }
+    role: string
+    favorites?: number
+    voice_actors: Array<{
+        person: {
+            mal_id: number
+            url: string
+            images: {
+                jpg: {
+                    image_url: string
+                }
+            }
+            name: string
+        }
+        language: string
+    }>
+}
@@ -1,2 +1,4 @@
 export {Anime} from './anime'
-export {Manga} from './manga'
\ No newline at end of file
+export {Manga} from './manga'
+export {Character, AnimeCharacter} from './character'
+export {Club} from './club'
\ No newline at end of file
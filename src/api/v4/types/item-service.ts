@@ -1,9 +1,12 @@
 import {QueryOptions} from "../database/types/repository";
+import {Paginated} from "./pagination";
 
 export interface ItemService<T> {
     findById(id: number): Promise<T | null>;
     findAll(): Promise<T[]>;
     findByQuery(options: QueryOptions): Promise<T[]>;
+    countByQuery(options: QueryOptions): Promise<number>;
+    paginate(options: QueryOptions): Promise<Paginated<T>>;
     create(item: T): Promise<T>;
     update(id: number, item: Partial<T>): Promise<T | null>;
     delete(id: number): Promise<boolean>;
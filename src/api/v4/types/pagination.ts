@@ -0,0 +1,17 @@
+export type Pagination = {
+    last_visible_page: number
+    has_next_page: boolean
+    current_page: number
+    /** Opaque keyset cursor for the page after this one (`?cursor=`); null on the last page. */
+    next_cursor?: string | null
+    items: {
+        count: number
+        total: number
+        per_page: number
+    }
+}
+
+export type Paginated<T> = {
+    pagination: Pagination
+    data: T[]
+}
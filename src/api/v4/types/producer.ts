@@ -3,4 +3,8 @@ export type Producer = {
     type: string
     name: string
     url: string
-}
\ No newline at end of file
+}
+
+export type ProducerWithCount = Producer & {
+    count: number
+}
@@ -0,0 +1,6 @@
+export type Season = 'winter' | 'spring' | 'summer' | 'fall'
+
+export type SeasonArchive = {
+    year: number
+    seasons: Season[]
+}
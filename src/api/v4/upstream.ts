@@ -0,0 +1,128 @@
+import {RateLimiter, TokenBucket} from "./upstream/rate-limiter";
+
+const DEFAULT_BASE_URL = "https://api.jikan.moe/v4";
+const RATE_PER_SECOND = process.env.JIKAN_RATE_PER_SECOND ? parseInt(process.env.JIKAN_RATE_PER_SECOND) : 3;
+const RATE_PER_MINUTE = process.env.JIKAN_RATE_PER_MINUTE ? parseInt(process.env.JIKAN_RATE_PER_MINUTE) : 60;
+const RATE_PROCESSES = process.env.JIKAN_RATE_PROCESSES ? Math.max(1, parseInt(process.env.JIKAN_RATE_PROCESSES)) : 1;
+const MAX_RETRIES = process.env.JIKAN_MAX_RETRIES ? parseInt(process.env.JIKAN_MAX_RETRIES) : 3;
+const TIMEOUT_MS = 10_000;
+const BACKOFF_MS = 500;
+
+/**
+ * Returns a bucket allowing this process its share of a budget split evenly across JIKAN_RATE_PROCESSES processes.
+ *
+ * A share below one request per interval becomes one request per proportionally longer interval, so the bucket can
+ * always hold a whole token.
+ *
+ * @param {number} rate - Requests allowed per interval across all processes.
+ * @param {number} intervalMs - Length of the interval in milliseconds.
+ * @returns {TokenBucket} The bucket for this process.
+ */
+function processShare(rate: number, intervalMs: number): TokenBucket {
+    const share = rate / RATE_PROCESSES;
+    return share >= 1 ? new TokenBucket(share, intervalMs) : new TokenBucket(1, intervalMs / share);
+}
+
+/**
+ * Limiter of this process, used by its HTTP controllers or CLI command, honouring its share of Jikan's 3 req/s and
+ * 60 req/min limits. Limiters are not coordinated across processes (each `reusePort` server instance and each CLI run
+ * has its own), so JIKAN_RATE_PROCESSES must cover every process calling Jikan at the same time.
+ */
+const limiter = new RateLimiter([
+    processShare(RATE_PER_SECOND, 1000),
+    processShare(RATE_PER_MINUTE, 60_000),
+]);
+
+/**
+ * Error raised when the upstream API keeps failing or answers with an unexpected status.
+ */
+export class UpstreamError extends Error {
+    readonly status?: number;
+
+    /**
+     * Creates a new UpstreamError.
+     * @param {string} message - Description of the failure.
+     * @param {number} [status] - HTTP status of the last response, if any.
+     */
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = "UpstreamError";
+        this.status = status;
+    }
+}
+
+/**
+ * Returns the Jikan base URL, configurable via the JIKAN_BASE_URL environment variable (e.g. to target a local stub server).
+ * @returns {string} The base URL without a trailing slash.
+ */
+export function getJikanBaseUrl(): string {
+    return (process.env.JIKAN_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Delays execution for a specified number of milliseconds.
+ * @param {number} ms - Milliseconds to sleep.
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * Converts a `Retry-After` header (delay in seconds or an HTTP date) to milliseconds.
+ * @param {string | null} header - The header value.
+ * @returns {number | null} Milliseconds to wait, or null when absent or unparsable.
+ */
+function retryAfterMs(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Fetches JSON from the Jikan API through the process rate limiter.
+ *
+ * Every attempt waits for a token from this process's limiter. A 429 pauses the limiter for the `Retry-After`
+ * duration (1 second when absent) and retries; network errors and 5xx responses retry with a growing backoff.
+ *
+ * @param {string} path - Path relative to the base URL, e.g. `/anime/1` (query string included).
+ * @returns {Promise<any | null>} The parsed JSON body, or null when the resource does not exist (404).
+ * @throws {UpstreamError} If the request fails after all retries or returns another error status.
+ */
+export async function jikanFetch(path: string): Promise<any | null> {
+    const url = `${getJikanBaseUrl()}${path.startsWith("/") ? path : `/${path}`}`;
+    let lastErr: unknown;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        await limiter.acquire();
+
+        let res: Response;
+        try {
+            res = await fetch(url, {
+                headers: {"User-Agent": "jikan-lite"},
+                signal: AbortSignal.timeout(TIMEOUT_MS),
+            });
+        } catch (e) {
+            lastErr = e;
+            await sleep(BACKOFF_MS * (attempt + 1));
+            continue;
+        }
+
+        if (res.ok) return await res.json();
+        if (res.status === 404) return null;
+
+        lastErr = new UpstreamError(`Upstream responded with HTTP ${res.status} for ${path}`, res.status);
+        if (res.status === 429) {
+            limiter.pause(retryAfterMs(res.headers.get("Retry-After")) ?? 1000);
+        } else if (res.status >= 500) {
+            await sleep(BACKOFF_MS * (attempt + 1));
+        } else {
+            break;
+        }
+    }
+
+    if (lastErr instanceof UpstreamError) throw lastErr;
+    throw new UpstreamError(`Upstream request failed for ${path}: ${lastErr}`);
+}
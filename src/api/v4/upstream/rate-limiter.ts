@@ -0,0 +1,110 @@
+/**
+ * Delays execution for a specified number of milliseconds.
+ * @param {number} ms - Milliseconds to sleep.
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * A token bucket holding up to `capacity` tokens that refills continuously at `capacity` tokens per `intervalMs`.
+ * Starts full, so a burst up to the capacity is allowed before requests are spread out.
+ */
+export class TokenBucket {
+    private readonly capacity: number;
+    private readonly intervalMs: number;
+    private tokens: number;
+    private updatedAt: number;
+
+    /**
+     * Creates a new TokenBucket.
+     * @param {number} capacity - Maximum number of tokens (requests) per interval.
+     * @param {number} intervalMs - Length of the interval in milliseconds.
+     */
+    constructor(capacity: number, intervalMs: number) {
+        this.capacity = capacity;
+        this.intervalMs = intervalMs;
+        this.tokens = capacity;
+        this.updatedAt = Date.now();
+    }
+
+    /**
+     * Returns how long (in milliseconds) until a token is available; 0 when one is available now.
+     * @returns {number} Milliseconds to wait.
+     */
+    waitTime(): number {
+        this.refill();
+        if (this.tokens >= 1) return 0;
+        return Math.ceil((1 - this.tokens) * this.intervalMs / this.capacity);
+    }
+
+    /**
+     * Consumes a single token. Callers check `waitTime()` first.
+     */
+    take() {
+        this.refill();
+        this.tokens -= 1;
+    }
+
+    /**
+     * Adds the tokens accrued since the last refill, capped at the capacity.
+     * @private
+     */
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.capacity / this.intervalMs);
+        this.updatedAt = now;
+    }
+}
+
+/**
+ * Rate limiter combining several token buckets (e.g. per second and per minute); a request needs a token from each.
+ *
+ * Callers are served in order through an internal promise queue, so concurrent requests never race for tokens.
+ * `pause()` holds every caller back, e.g. after the upstream answered 429 with a `Retry-After`.
+ */
+export class RateLimiter {
+    private readonly buckets: TokenBucket[];
+    private queue: Promise<void> = Promise.resolve();
+    private pausedUntil = 0;
+
+    /**
+     * Creates a new RateLimiter.
+     * @param {TokenBucket[]} buckets - The buckets a request must take a token from.
+     */
+    constructor(buckets: TokenBucket[]) {
+        this.buckets = buckets;
+    }
+
+    /**
+     * Waits until a request may be sent and consumes its tokens.
+     * @returns {Promise<void>} Resolves when the caller may send its request.
+     */
+    acquire(): Promise<void> {
+        const next = this.queue.then(() => this.waitForTokens());
+        this.queue = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Holds back all callers for the given duration (extending an existing pause only).
+     * @param {number} ms - Milliseconds to pause for.
+     */
+    pause(ms: number) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+
+    /**
+     * Sleeps until the pause is over and every bucket has a token, then takes one from each.
+     * @private
+     */
+    private async waitForTokens() {
+        while (true) {
+            const wait = Math.max(this.pausedUntil - Date.now(), ...this.buckets.map((b) => b.waitTime()));
+            if (wait <= 0) break;
+            await sleep(wait);
+        }
+        this.buckets.forEach((b) => b.take());
+    }
+}
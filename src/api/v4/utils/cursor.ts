@@ -0,0 +1,50 @@
+/**
+ * A keyset position: the ordering a page was fetched with and the sort key of its last row.
+ */
+export type CursorPosition = {
+    /** Column the list is ordered by (after Jikan aliases are resolved). */
+    orderBy: string
+    direction: 'ASC' | 'DESC'
+    /** Value of the `orderBy` column on the last row (null when that row has none). */
+    value: string | number | boolean | null
+    /** `mal_id` of the last row, breaking ties between rows sharing `value`. */
+    id: number
+}
+
+/**
+ * Encodes a keyset position as an opaque, URL-safe `cursor` value.
+ *
+ * Serializes the position as a compact JSON tuple and base64url-encodes it.
+ *
+ * @param {CursorPosition} position - The position after the last row of a page.
+ * @returns {string} The cursor to pass back as `?cursor=`.
+ */
+export function EncodeCursor(position: CursorPosition): string {
+    const tuple = [position.orderBy, position.direction, position.value, position.id];
+    return Buffer.from(JSON.stringify(tuple)).toString('base64url');
+}
+
+/**
+ * Decodes a `cursor` value produced by `EncodeCursor`.
+ *
+ * Reverses the base64url/JSON encoding and validates the tuple's shape; anything else is rejected.
+ *
+ * @param {string} cursor - The opaque cursor.
+ * @returns {CursorPosition | null} The keyset position, or null when the cursor is malformed.
+ */
+export function DecodeCursor(cursor: string): CursorPosition | null {
+    let tuple: any;
+    try {
+        tuple = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+
+    if (!Array.isArray(tuple) || tuple.length !== 4) return null;
+    const [orderBy, direction, value, id] = tuple;
+    if (typeof orderBy !== 'string' || !['ASC', 'DESC'].includes(direction)) return null;
+    if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) return null;
+    if (!Number.isInteger(id)) return null;
+
+    return {orderBy, direction, value, id};
+}
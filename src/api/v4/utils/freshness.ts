@@ -0,0 +1,61 @@
+import {Anime} from "../types";
+
+/**
+ * How long (in seconds) a stored anime stays fresh after its last sync, per airing state.
+ */
+export type FreshnessPolicy = {
+    airing: number
+    upcoming: number
+    finished: number
+}
+
+/**
+ * Airing state of an anime, selecting the freshness window that applies to it.
+ */
+export type AiringState = keyof FreshnessPolicy
+
+/**
+ * Reads the freshness policy from the environment.
+ *
+ * `ANIME_FRESH_AIRING`, `ANIME_FRESH_UPCOMING` and `ANIME_FRESH_FINISHED` (seconds) default to 6 hours, 1 day and 30 days.
+ *
+ * @returns {FreshnessPolicy} The freshness windows in seconds.
+ */
+export function GetFreshnessPolicy(): FreshnessPolicy {
+    const seconds = (value: string | undefined, fallback: number) => value ? parseInt(value) : fallback;
+
+    return {
+        airing: seconds(process.env.ANIME_FRESH_AIRING, 6 * 60 * 60),
+        upcoming: seconds(process.env.ANIME_FRESH_UPCOMING, 24 * 60 * 60),
+        finished: seconds(process.env.ANIME_FRESH_FINISHED, 30 * 24 * 60 * 60),
+    };
+}
+
+/**
+ * Classifies an anime as airing, upcoming or finished from its `airing` flag and `status`.
+ *
+ * @param {Pick<Anime, "airing" | "status">} anime - The anime to classify.
+ * @returns {AiringState} The airing state.
+ */
+export function ToAiringState(anime: Pick<Anime, "airing" | "status">): AiringState {
+    if (anime.airing || anime.status === "Currently Airing") return "airing";
+    if (anime.status === "Not yet aired") return "upcoming";
+    return "finished";
+}
+
+/**
+ * Checks whether a stored anime is due for a refresh under the freshness policy.
+ *
+ * Rows without a sync timestamp (stored before sync tracking) are always stale.
+ *
+ * @param {Pick<Anime, "airing" | "status">} anime - The stored anime.
+ * @param {string | null} syncedAt - ISO timestamp of its last sync.
+ * @param {FreshnessPolicy} [policy] - The policy to apply; read from the environment by default.
+ * @returns {boolean} True if the anime should be refreshed from upstream.
+ */
+export function IsStale(anime: Pick<Anime, "airing" | "status">, syncedAt: string | null, policy: FreshnessPolicy = GetFreshnessPolicy()): boolean {
+    if (!syncedAt) return true;
+
+    const age = Date.now() - Date.parse(syncedAt);
+    return !(age < policy[ToAiringState(anime)] * 1000);
+}
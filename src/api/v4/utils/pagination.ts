@@ -0,0 +1,63 @@
+import {QueryOptions} from "../database/types/repository";
+import {Paginated, Pagination} from "../types/pagination";
+import {CursorAfter} from "../database/helpers/query-to-sql";
+
+/**
+ * Builds a Jikan-compatible pagination object for a page of results.
+ *
+ * Derives the current page and page size from the query options (defaulting to 1 and 25), then computes the last visible page from the total count.
+ *
+ * @param {QueryOptions} options - The query options used to fetch the page.
+ * @param {number} count - Number of items in the returned page.
+ * @param {number} total - Total number of items matching the query.
+ * @returns {Pagination} The pagination envelope.
+ */
+export function ToPagination(options: QueryOptions, count: number, total: number): Pagination {
+    const perPage = options.limit || 25;
+    const currentPage = options.page || 1;
+    const lastVisiblePage = Math.max(1, Math.ceil(total / perPage));
+
+    return {
+        last_visible_page: lastVisiblePage,
+        has_next_page: currentPage < lastVisiblePage,
+        current_page: currentPage,
+        items: {
+            count,
+            total,
+            per_page: perPage,
+        },
+    };
+}
+
+/**
+ * Fetches one page of a `QueryToSQL`-backed list with its pagination, in page or cursor (keyset) mode.
+ *
+ * Without a `cursor`, the page is fetched by offset as before. With one, a single extra row is fetched to tell whether
+ * another page follows, so `has_next_page` does not depend on the (possibly changing) total. Either way `next_cursor`
+ * continues after the last returned row.
+ *
+ * @param {QueryOptions} options - The query options.
+ * @param {string} tableName - Table the list is read from, used to resolve the cursor's order column.
+ * @param {(options: QueryOptions) => Promise<T[]>} find - Fetches the rows for the options (usually the cached `findByQuery`).
+ * @param {(options: QueryOptions) => Promise<number>} count - Counts the rows for the options (usually the cached `countByQuery`).
+ * @returns {Promise<Paginated<T>>} The page and its pagination.
+ */
+export async function Paginate<T extends { mal_id: number }>(
+    options: QueryOptions,
+    tableName: string,
+    find: (options: QueryOptions) => Promise<T[]>,
+    count: (options: QueryOptions) => Promise<number>,
+): Promise<Paginated<T>> {
+    const perPage = options.limit || 25;
+    const rows = await find(options.cursor ? {...options, limit: perPage + 1} : options);
+    const data = rows.slice(0, perPage);
+    const total = await count(options);
+
+    const pagination = ToPagination(options, data.length, total);
+    if (options.cursor) pagination.has_next_page = rows.length > perPage;
+    pagination.next_cursor = pagination.has_next_page && data.length
+        ? await CursorAfter(options, tableName, data[data.length - 1].mal_id)
+        : null;
+
+    return {pagination, data};
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import {Paginated} from "../types/pagination";
+
+/**
+ * Copies only the given dot-path fields of an entity into a new (sparse) object with the same nesting.
+ *
+ * A path naming a nested object (e.g. `images`) copies it whole; paths missing from the entity are skipped.
+ *
+ * @param {T} item - The entity to pick from.
+ * @param {string[]} fields - Dot-path field names, e.g. `["mal_id", "images.jpg.image_url"]`.
+ * @returns {Partial<T>} The sparse entity.
+ */
+export function PickFields<T>(item: T, fields: string[]): Partial<T> {
+    const result: any = {};
+
+    for (const field of fields) {
+        const keys = field.split(".");
+        const value = keys.reduce((node: any, key) => node?.[key], item);
+        if (value === undefined) continue;
+
+        let target = result;
+        keys.slice(0, -1).forEach((key) => target = target[key] ??= {});
+        target[keys[keys.length - 1]] = structuredClone(value);
+    }
+
+    return result as Partial<T>;
+}
+
+/**
+ * Applies `PickFields` to every entry of a page; returns the page unchanged when no fields are requested.
+ *
+ * @param {Paginated<T>} page - The page of entities.
+ * @param {string[] | undefined} fields - Dot-path field names, or undefined for full entities.
+ * @returns {Paginated<Partial<T>>} The page with sparse entities.
+ */
+export function PickPageFields<T>(page: Paginated<T>, fields: string[] | undefined): Paginated<Partial<T>> {
+    if (!fields) return page;
+    return {...page, data: page.data.map((item) => PickFields(item, fields))};
+}
@@ -1,4 +1,14 @@
-import {QueryOptions} from "../database/types/repository";
+import {IdFilter, QueryOptions} from "../database/types/repository";
+
+/**
+ * Serializes an IdFilter back to its query form ("1,4" for all, "1|4" for any).
+ *
+ * @param {IdFilter} filter - The ID filter.
+ * @returns {string} The serialized ID list.
+ */
+function IdFilterToString(filter: IdFilter): string {
+    return filter.ids.join(filter.match === 'any' ? '|' : ',');
+}
 
 /**
  * Serializes QueryOptions into a URL query string fragment.
@@ -16,6 +26,27 @@ export function QueryToString(query: QueryOptions): string {
     if (query.limit) queryString += `&limit=${query.limit}`;
     if (query.orderBy) queryString += `&order_by=${query.orderBy}`;
     if (query.orderDirection) queryString += `&order_direction=${query.orderDirection}`;
+    if (query.search) queryString += `&q=${encodeURIComponent(query.search)}`;
+    if (query.searchSynopsis) queryString += `&search_synopsis=true`;
+    if (query.minScore !== undefined) queryString += `&min_score=${query.minScore}`;
+    if (query.maxScore !== undefined) queryString += `&max_score=${query.maxScore}`;
+    if (query.startDate) queryString += `&start_date=${query.startDate}`;
+    if (query.endDate) queryString += `&end_date=${query.endDate}`;
+    if (query.genres) queryString += `&genres=${IdFilterToString(query.genres)}`;
+    if (query.genresExclude) queryString += `&genres_exclude=${IdFilterToString(query.genresExclude)}`;
+    if (query.producers) queryString += `&producers=${IdFilterToString(query.producers)}`;
+    if (query.studios) queryString += `&studios=${IdFilterToString(query.studios)}`;
+    if (query.licensors) queryString += `&licensors=${IdFilterToString(query.licensors)}`;
+    if (query.sfw) queryString += `&sfw=true`;
+    if (query.letter) queryString += `&letter=${encodeURIComponent(query.letter)}`;
+    if (query.fields) queryString += `&fields=${encodeURIComponent(query.fields.join(','))}`;
+    if (query.view) queryString += `&view=${encodeURIComponent(query.view)}`;
+    if (query.cursor) queryString += `&cursor=${encodeURIComponent(query.cursor)}`;
+
+    query.conditions?.forEach((condition) => {
+        const value = Array.isArray(condition.value) ? condition.value.join(',') : String(condition.value);
+        queryString += `&${condition.column}[${condition.operator}]=${encodeURIComponent(value)}`;
+    });
 
     if (query.filters) {
         for (const [key, value] of Object.entries(query.filters)) {
@@ -0,0 +1,63 @@
+/**
+ * Calls currently in flight, keyed by the caller-provided key.
+ */
+const inFlight = new Map<string, Promise<any>>();
+
+/**
+ * Runs `fn` at most once at a time per key: concurrent callers with the same key share the pending result.
+ *
+ * The first caller starts `fn` and registers its promise; callers arriving before it settles receive the same
+ * promise (including its rejection). The key is released once the promise settles, so later calls run `fn` again.
+ *
+ * @param {string} key - De-duplication key, e.g. `anime_${malId}`.
+ * @param {() => Promise<T>} fn - The work to run, e.g. an upstream fetch followed by an insert.
+ * @returns {Promise<T>} The shared result.
+ */
+export function SingleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = Promise.resolve()
+        .then(fn)
+        .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+}
+
+/**
+ * A row loaded after a lookup miss, together with where it came from: stored meanwhile by another request, or fetched.
+ */
+export type FetchedRow<T> = {
+    data: T
+    source: 'db' | 'api'
+}
+
+/**
+ * Loads a row that a lookup just missed, fetching and storing it at most once at a time per key.
+ *
+ * Runs in a SingleFlight and re-checks the store first, since a flight that settled after the caller's lookup may already
+ * have stored the row. If storing fails but the row now exists (inserted by another server process), that row is
+ * returned instead of the error.
+ *
+ * @param {string} key - De-duplication key, e.g. `anime_${malId}`.
+ * @param {() => Promise<T | null>} find - Reads the stored row.
+ * @param {() => Promise<T | null>} fetchAndStore - Fetches the row upstream and stores it; null if it does not exist.
+ * @returns {Promise<FetchedRow<T> | null>} The row and its source, or null if it does not exist upstream.
+ */
+export function FetchMissing<T>(key: string, find: () => Promise<T | null>, fetchAndStore: () => Promise<T | null>): Promise<FetchedRow<T> | null> {
+    return SingleFlight(key, async (): Promise<FetchedRow<T> | null> => {
+        let stored = await find();
+        if (stored) return {data: stored, source: 'db'};
+
+        let fetched: T | null;
+        try {
+            fetched = await fetchAndStore();
+        } catch (e) {
+            stored = await find();
+            if (stored) return {data: stored, source: 'db'};
+            throw e;
+        }
+
+        return fetched ? {data: fetched, source: 'api'} : null;
+    });
+}
@@ -2,9 +2,20 @@ import {Hono} from "hono";
 import {logger} from 'hono/logger'
 import animeV4 from "./api/v4/controllers/anime"
 import mangaV4 from "./api/v4/controllers/manga"
+import genresV4 from "./api/v4/controllers/genres"
+import producersV4 from "./api/v4/controllers/producers"
+import charactersV4 from "./api/v4/controllers/characters"
+import clubsV4 from "./api/v4/controllers/clubs"
+import seasonsV4 from "./api/v4/controllers/seasons"
+import schedulesV4 from "./api/v4/controllers/schedules"
+import topV4 from "./api/v4/controllers/top"
+import randomV4 from "./api/v4/controllers/random"
 import {Schema} from "./api/v4/database/schema";
 import {getDatabase} from "./api/v4/database";
 import {AnimeRepository} from "./api/v4/database/repository/anime-repository";
+import {MangaRepository} from "./api/v4/database/repository/manga-repository";
+import {DecodeCursor} from "./api/v4/utils/cursor";
+import {getCacheStats} from "./api/v4/cache";
 
 const app = new Hono()
 
@@ -40,34 +51,76 @@ app.use(logger(customLogger))
  * Constructs a JSON payload with basic info and returns it using the context’s JSON helper.
  *
  * @route GET /
- * @returns {Promise<Response>} JSON containing welcome message, version, and endpoints.
+ * @returns {Promise<Response>} JSON containing welcome message, version, endpoints, counts and cache statistics.
  */
 app.get('/', async (c) => {
     let db = getDatabase()
     let animeRepository = new AnimeRepository(db);
     let totalAnime = await animeRepository.countAll();
+    let mangaRepository = new MangaRepository(db);
+    let totalManga = await mangaRepository.countAll();
 
     return c.json({
         message: 'Welcome to the Jikan Lite API!',
         version: 'v4',
         endpoints: {
             anime: '/v4/anime',
-            manga: '/v4/manga'
+            manga: '/v4/manga',
+            genres: '/v4/genres/anime',
+            producers: '/v4/producers',
+            characters: '/v4/characters',
+            clubs: '/v4/clubs',
+            seasons: '/v4/seasons',
+            schedules: '/v4/schedules',
+            top: '/v4/top/anime',
+            random: '/v4/random/anime'
         },
         count: {
             anime: totalAnime,
-            manga: 'TBD'
+            manga: totalManga
         },
+        cache: getCacheStats(),
         documentation: 'Generate locally with `bun run docs` (see README). Output in /docs',
         author: 'Agus Saputra Sijabat',
         database: process.env.DB_CLIENT,
     })
 })
 
+/**
+ * Rejects malformed keyset cursors and page sizes before they reach a list endpoint.
+ *
+ * Cursors are only produced by this API (`pagination.next_cursor`), so one that does not decode was tampered with or truncated.
+ * `limit` must be a positive integer; values above MAX_PAGE_LIMIT are capped rather than rejected, as Jikan does.
+ *
+ * @route * /v4/*
+ * @returns {Promise<Response | void>} 400 JSON response for an invalid `cursor` or `limit`; otherwise continues to the route.
+ */
+app.use('/v4/*', async (c, next) => {
+    const cursor = c.req.query('cursor')
+    if (cursor && !DecodeCursor(cursor)) {
+        return c.json({message: 'Invalid cursor'}, 400)
+    }
+
+    const limit = c.req.query('limit')
+    if (limit !== undefined && (!/^\d+$/.test(limit) || Number(limit) === 0)) {
+        return c.json({message: 'Invalid limit, expected a positive integer'}, 400)
+    }
+
+    await next()
+})
+
 // API v4
 app.get('/v4', (c) => c.redirect('/'))
 app.route('/v4/anime', animeV4)
 app.route('/v4/manga', mangaV4)
+app.route('/v4/genres', genresV4)
+app.route('/v4/producers', producersV4)
+app.route('/v4/characters', charactersV4)
+app.route('/v4/clubs', clubsV4)
+app.route('/v4/seasons', seasonsV4)
+app.route('/v4/schedules', schedulesV4)
+app.route('/v4/top', topV4)
+app.route('/v4/random', randomV4)
 
 /**
  * Global error handler for the Hono app.